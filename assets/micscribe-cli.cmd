@@ -0,0 +1,12 @@
+@echo off
+rem MicScribe.exe is a GUI program: Windows gives it no console, so
+rem `MicScribe.exe --cli` prints nothing when run directly. Its output is
+rem redirected to files here and shown once the command has finished.
+setlocal
+set "out=%TEMP%\micscribe-cli-%RANDOM%%RANDOM%"
+"%~dp0..\MicScribe.exe" --cli %* >"%out%.out" 2>"%out%.err"
+set "code=%ERRORLEVEL%"
+type "%out%.out"
+type "%out%.err" 1>&2
+del "%out%.out" "%out%.err"
+exit /b %code%
@@ -14,7 +14,11 @@ const config: ForgeConfig = {
     asar: true,
     icon: path.resolve(__dirname, 'assets', 'icon'),
     executableName: 'MicScribe',
-    extraResource: [path.resolve(__dirname, 'assets', 'icon.ico')],
+    extraResource: [
+      path.resolve(__dirname, 'assets', 'icon.ico'),
+      // Console wrapper for --cli, see src/main/cli.ts.
+      path.resolve(__dirname, 'assets', 'micscribe-cli.cmd'),
+    ],
   },
   rebuildConfig: {},
   makers: [
@@ -37,6 +41,14 @@ const config: ForgeConfig = {
               js: './src/preload.ts',
             },
           },
+          {
+            html: './src/overlay.html',
+            js: './src/overlay.ts',
+            name: 'overlay_window',
+            preload: {
+              js: './src/overlay-preload.ts',
+            },
+          },
         ],
       },
     }),
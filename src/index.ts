@@ -1,155 +1,229 @@
 import 'dotenv/config';
-import { app, BrowserWindow, ipcMain, clipboard } from 'electron';
+import {
+  app,
+  BrowserWindow,
+  ipcMain,
+  clipboard,
+  dialog,
+  globalShortcut,
+  OpenDialogOptions,
+  SaveDialogOptions,
+  WebContents,
+  shell,
+} from 'electron';
 import path from 'node:path';
 import fs from 'node:fs';
 import { randomUUID } from 'node:crypto';
 import Store from 'electron-store';
+import { getTranscriptionProvider, testProviderKey } from './main/providers';
+import {
+  addKey,
+  deleteKey,
+  encryptPlaintextKeys,
+  getActiveKeyValue,
+  getKeyValue,
+  hasActiveKey,
+  isEncryptionAvailable,
+  listKeys,
+  setActiveKey,
+} from './main/credentials';
+import {
+  addHistoryEntry,
+  clearHistory,
+  deleteHistoryEntry,
+  getDefaultAudioDir,
+  getHistoryEntry,
+  listHistory,
+  pruneHistoryAudio,
+  readHistoryAudio,
+  updateHistoryEntry,
+  updateHistoryText,
+} from './main/history';
+import { HotkeyAction, registerHotkey } from './main/hotkey';
+import { simulatePaste } from './main/paste';
+import { createTray, destroyTray, updateTray } from './main/tray';
+import {
+  closeOverlay,
+  isOverlayOpen,
+  openOverlay,
+  sendToOverlay,
+  setOverlayExpanded,
+} from './main/overlay';
+import {
+  RECORDING_STATES,
+  RecordingLevel,
+  RecordingResult,
+  RecordingState,
+  isRecordingOpen,
+} from './shared/recording';
+import { JobHandle, cancelJob, isCancellation, runJob } from './main/jobs';
+import type { JobProgress } from './shared/jobs';
+import { normalizeTranscript } from './main/transcripts';
+import { getErrorMessage, toIpcError } from './main/errors';
+import {
+  captureConsole,
+  createDiagnosticsReport,
+  logDiagnostic,
+} from './main/diagnostics';
+import { formatTranscript } from './main/export';
+import {
+  findInvalidRules,
+  postProcessText,
+  postProcessTranscript,
+} from './main/post-processing';
+import { rewriteText } from './main/rewrite';
+import {
+  API_HOST,
+  ApiRoutes,
+  createApiError,
+  disableApiServer,
+  getApiServerInfo,
+  readApiInfo,
+  renewApiToken,
+  startApiServer,
+} from './main/api-server';
+import { getCliArgs, runCli } from './main/cli';
+import {
+  discardQueueItem,
+  enqueueFailedRecording,
+  initRetryQueue,
+  listRetryQueue,
+  retryAllNow,
+  retryQueueItem,
+} from './main/retry-queue';
+import { EXPORT_FORMATS, ExportFormat, Transcript } from './shared/transcript';
+import { MessageKey } from './shared/i18n';
+import { setMainLanguage, t } from './main/i18n';
+import { AUTO_LANGUAGE, Language, isLanguage } from './shared/languages';
+import {
+  DEFAULT_SETTINGS,
+  PROVIDER_IDS,
+  ProviderId,
+  PublicSettings,
+  SETTINGS_KEYS,
+  SETTINGS_VERSION,
+  Settings,
+  SettingsUpdate,
+} from './shared/settings';
+import {
+  createSettingsFile,
+  migrateSettings,
+  readSettingsFile,
+  validateSettings,
+} from './main/settings';
+import {
+  getAudioExtension,
+  getMimeType,
+  isSupportedAudioFile,
+} from './main/audio-formats';
+import { SUPPORTED_EXTENSIONS } from './shared/audio-formats';
+import { KeyState } from './shared/credentials';
+import { ApiState } from './shared/api';
+import { HistoryTextUpdate } from './shared/history';
 
 // Webpack entry points injected by Electron Forge.
 declare const MAIN_WINDOW_WEBPACK_ENTRY: string;
 declare const MAIN_WINDOW_PRELOAD_WEBPACK_ENTRY: string;
+declare const OVERLAY_WINDOW_WEBPACK_ENTRY: string;
+declare const OVERLAY_WINDOW_PRELOAD_WEBPACK_ENTRY: string;
 
-type Language = 'de' | 'en';
-type Theme = 'light' | 'dark' | 'system';
-
-type Settings = {
-  language: Language;
-  preferredMicDeviceId: string | null;
-  replicateApiToken: string | null;
-  theme: Theme;
+type StoredSettings = Settings & {
+  // Layout version of the file, see migrateStoredSettings.
+  settingsVersion?: number;
 };
 
 type SettingsStore = {
-  get: <Key extends keyof Settings>(key: Key) => Settings[Key];
-  set: (value: Partial<Settings>) => void;
+  get: <Key extends keyof StoredSettings>(key: Key) => StoredSettings[Key];
+  set: (value: Partial<StoredSettings>) => void;
+  store: Record<string, unknown>;
 };
 
 const store = new Store<Settings>({
-  defaults: {
-    language: 'de',
-    preferredMicDeviceId: null,
-    replicateApiToken: null,
-    theme: 'system',
-  },
+  defaults: DEFAULT_SETTINGS,
 }) as unknown as SettingsStore;
 
-const getSettings = (): Settings => ({
-  language: store.get('language'),
-  preferredMicDeviceId: store.get('preferredMicDeviceId'),
-  replicateApiToken: store.get('replicateApiToken'),
-  theme: store.get('theme'),
-});
+const getSettings = (): Settings =>
+  Object.fromEntries(
+    SETTINGS_KEYS.map((key) => [key, store.get(key)]),
+  ) as Settings;
 
-const getPublicSettings = () => {
-  const current = getSettings();
-  return {
-    language: current.language,
-    preferredMicDeviceId: current.preferredMicDeviceId,
-    hasReplicateToken: Boolean(current.replicateApiToken),
-    theme: current.theme,
-  };
-};
+let mainWindow: BrowserWindow | null = null;
+let hotkeyRegistered = false;
 
-const updateSettings = (updates: Partial<Settings>): Settings => {
-  const current = getSettings();
-  const next: Settings = {
-    language: current.language,
-    preferredMicDeviceId: current.preferredMicDeviceId,
-    replicateApiToken: current.replicateApiToken,
-    theme: current.theme,
+const toPublicSettings = (current: Settings): PublicSettings => {
+  const publicSettings: PublicSettings & Partial<Settings> = {
+    ...current,
+    // The effective folder, so the settings can always show a path.
+    audioDirectory: current.audioDirectory ?? getDefaultAudioDir(),
+    hasReplicateToken: hasActiveKey('replicate'),
+    hasOpenaiApiKey: hasActiveKey('openai-compatible'),
+    hotkeyRegistered,
   };
+  delete publicSettings.overlayPosition;
+  return publicSettings;
+};
 
-  if (updates.language === 'de' || updates.language === 'en') {
-    next.language = updates.language;
-  }
-  if (
-    typeof updates.preferredMicDeviceId === 'string' ||
-    updates.preferredMicDeviceId === null
-  ) {
-    next.preferredMicDeviceId = updates.preferredMicDeviceId;
-  }
-  if (
-    typeof updates.replicateApiToken === 'string' ||
-    updates.replicateApiToken === null
-  ) {
-    next.replicateApiToken = updates.replicateApiToken;
-  }
-  if (
-    updates.theme === 'light' ||
-    updates.theme === 'dark' ||
-    updates.theme === 'system'
-  ) {
-    next.theme = updates.theme;
-  }
+const getPublicSettings = () => toPublicSettings(getSettings());
 
+const updateSettings = (updates: unknown) => {
+  const { next, rejected } = validateSettings(updates, getSettings());
   store.set(next);
-  return next;
+  if (rejected.length > 0) {
+    console.warn('Rejected settings:', rejected.join(', '));
+  }
+  return { next, rejected };
 };
 
-type ReplicateClient = {
-  files: {
-    create: (file: Buffer | Blob) => Promise<{ urls: { get: string } }>;
+const getProviderConfig = () => {
+  const current = getSettings();
+  return {
+    provider: current.transcriptionProvider,
+    replicateApiToken:
+      process.env.REPLICATE_API_TOKEN || getActiveKeyValue('replicate'),
+    openaiBaseUrl: current.openaiBaseUrl,
+    openaiModel: current.openaiModel,
+    openaiApiKey:
+      process.env.OPENAI_API_KEY || getActiveKeyValue('openai-compatible'),
+    diarize: current.diarizationEnabled,
+    openaiDiarizationModel: current.openaiDiarizationModel,
   };
-  run: (
-    model: string,
-    args: { input: { audio_file: string; language: Language } },
-  ) => Promise<unknown>;
 };
 
-let replicateClient: ReplicateClient | null = null;
-let replicateToken: string | null = null;
+const getActiveProvider = () => getTranscriptionProvider(getProviderConfig());
 
-const ensureReplicateClient = async () => {
-  const token =
-    process.env.REPLICATE_API_TOKEN || store.get('replicateApiToken');
-  if (!token) {
-    throw new Error(
-      'REPLICATE_API_TOKEN ist nicht gesetzt. Bitte als Environment-Variable setzen oder im UI speichern.',
-    );
-  }
+const getPostProcessingOptions = (language: string | null) => ({
+  rules: store.get('replacementRules'),
+  voiceCommands: store.get('voiceCommandsEnabled'),
+  language,
+});
 
-  if (!replicateClient || replicateToken !== token) {
-    const mod = await import('replicate');
-    replicateClient = new mod.default({ auth: token }) as unknown as ReplicateClient;
-    replicateToken = token;
-  }
-  return replicateClient;
-};
-
-const normalizeTranscript = (output: unknown): string => {
-  if (Array.isArray(output)) {
-    return output.join('');
-  }
-  if (typeof output === 'string') {
-    return output;
-  }
-  if (output && typeof output === 'object' && 'text' in output) {
-    const text = (output as { text?: unknown }).text;
-    if (Array.isArray(text)) {
-      return text.join('');
-    }
-    if (typeof text === 'string') {
-      return text;
-    }
-  }
-  return output ? JSON.stringify(output) : '';
-};
-
-const normalizeError = (error: unknown): string => {
-  if (error instanceof Error) {
-    return error.message;
-  }
-  if (typeof error === 'string') {
-    return error;
-  }
-  return 'Unbekannter Fehler bei der Transkription.';
-};
+// Warnings and errors of the main process also go to the diagnostics log.
+captureConsole();
 
 // Handle creating/removing shortcuts on Windows when installing/uninstalling.
 if (require('electron-squirrel-startup')) {
   app.quit();
 }
 
+// `--cli` calls reach the running instance through the local API; they
+// neither open a window nor take the instance lock.
+const cliArgs = getCliArgs(process.argv);
+
+if (cliArgs) {
+  setMainLanguage(getSettings().uiLanguage);
+  void runCli(cliArgs).then((code) => app.exit(code));
+} else if (!app.requestSingleInstanceLock()) {
+  // A second launch (e.g. from the start menu while MicScribe sits in the
+  // tray) brings the running instance to the front instead.
+  app.quit();
+}
+
+// Passed by the login item so autostart does not pop up the window.
+const HIDDEN_ARG = '--hidden';
+
+let isQuitting = false;
+let recordingState: RecordingState = 'idle';
+
 app.setAppUserModelId('com.micscribe.app');
 
 const getWindowIcon = (): string | undefined => {
@@ -162,8 +236,21 @@ const getWindowIcon = (): string | undefined => {
   return packagedIcon;
 };
 
+const sendHotkeyAction = (action: HotkeyAction) => {
+  mainWindow?.webContents.send('hotkey', action);
+};
+
+const applyHotkey = () => {
+  hotkeyRegistered = registerHotkey(
+    store.get('hotkey'),
+    store.get('hotkeyMode'),
+    sendHotkeyAction,
+  );
+};
+
 const createWindow = (): void => {
-  const mainWindow = new BrowserWindow({
+  mainWindow = new BrowserWindow({
+    show: !process.argv.includes(HIDDEN_ARG),
     height: 700,
     width: 920,
     minHeight: 560,
@@ -174,41 +261,386 @@ const createWindow = (): void => {
       preload: MAIN_WINDOW_PRELOAD_WEBPACK_ENTRY,
       contextIsolation: true,
       nodeIntegration: false,
+      // Keep recording responsive while the hotkey is used from other apps.
+      backgroundThrottling: false,
     },
   });
 
+  mainWindow.on('close', (event) => {
+    if (!isQuitting && store.get('closeToTray')) {
+      event.preventDefault();
+      mainWindow?.hide();
+    }
+  });
+
+  mainWindow.on('closed', () => {
+    mainWindow = null;
+    // The overlay only mirrors the main window and would keep the app alive.
+    closeOverlay();
+  });
+
   mainWindow.setMenuBarVisibility(false);
   mainWindow.loadURL(MAIN_WINDOW_WEBPACK_ENTRY);
 };
 
-ipcMain.handle('settings:get', () => getPublicSettings());
+const showWindow = () => {
+  if (!mainWindow) {
+    createWindow();
+    return;
+  }
+  if (mainWindow.isMinimized()) {
+    mainWindow.restore();
+  }
+  mainWindow.show();
+  mainWindow.focus();
+};
+
+const applyOpenAtLogin = () => {
+  app.setLoginItemSettings({
+    openAtLogin: store.get('openAtLogin'),
+    args: [HIDDEN_ARG],
+  });
+};
 
-ipcMain.handle('settings:set', (_event, updates: Partial<Settings>) => {
-  const next = updateSettings(updates);
+const getOverlaySettings = () => ({
+  uiLanguage: store.get('uiLanguage'),
+  theme: store.get('theme'),
+});
+
+const applyOverlay = () => {
+  if (!store.get('overlayEnabled')) {
+    closeOverlay();
+    return;
+  }
+  if (isOverlayOpen()) {
+    return;
+  }
+  openOverlay({
+    url: OVERLAY_WINDOW_WEBPACK_ENTRY,
+    preload: OVERLAY_WINDOW_PRELOAD_WEBPACK_ENTRY,
+    position: store.get('overlayPosition'),
+    onMoved: (position) => store.set({ overlayPosition: position }),
+  });
+};
+
+const applySettings = (updates: Partial<Settings>): SettingsUpdate => {
+  const { next, rejected } = updateSettings(updates);
+  setMainLanguage(next.uiLanguage);
+  if ('hotkey' in updates || 'hotkeyMode' in updates) {
+    applyHotkey();
+  }
+  if ('openAtLogin' in updates) {
+    applyOpenAtLogin();
+  }
+  if ('overlayEnabled' in updates) {
+    applyOverlay();
+  }
+  if ('uiLanguage' in updates || 'theme' in updates) {
+    sendToOverlay('overlay:settings', getOverlaySettings());
+  }
+  if ('apiServerEnabled' in updates || 'apiServerPort' in updates) {
+    void applyApiServer();
+  }
+  updateTray();
+  return { settings: toPublicSettings(next), rejected };
+};
+
+// Changes made from the tray menu or the overlay are pushed to the renderer
+// so the settings controls stay in sync.
+const applySettingsAndNotify = (updates: Partial<Settings>) => {
+  const { settings } = applySettings(updates);
+  mainWindow?.webContents.send('settings:changed', settings);
+};
+
+const getTrayState = () => {
+  const current = getSettings();
+  const languages: Language[] = [AUTO_LANGUAGE, ...current.recentLanguages];
   return {
-    language: next.language,
-    preferredMicDeviceId: next.preferredMicDeviceId,
-    hasReplicateToken: Boolean(next.replicateApiToken),
-    theme: next.theme,
+    recordingState,
+    language: current.language,
+    languages: languages.includes(current.language)
+      ? languages
+      : [...languages, current.language],
+    hasLastTranscript: listHistory().length > 0,
+    openAtLogin: current.openAtLogin,
+    overlayEnabled: current.overlayEnabled,
+  };
+};
+
+const setupTray = () => {
+  createTray({
+    icon: getWindowIcon(),
+    getState: getTrayState,
+    actions: {
+      toggleRecording: () => sendHotkeyAction('toggle'),
+      copyLastTranscript: () => {
+        const [latest] = listHistory();
+        if (latest) {
+          clipboard.writeText(latest.text);
+        }
+      },
+      setLanguage: (language) => applySettingsAndNotify({ language }),
+      openHistory: () => {
+        showWindow();
+        mainWindow?.webContents.send('history:open');
+      },
+      showWindow,
+      setOpenAtLogin: (enabled) =>
+        applySettingsAndNotify({ openAtLogin: enabled }),
+      setOverlayEnabled: (enabled) =>
+        applySettingsAndNotify({ overlayEnabled: enabled }),
+      quit: () => app.quit(),
+    },
+  });
+};
+
+ipcMain.handle('settings:get', () => getPublicSettings());
+
+ipcMain.handle('settings:set', (_event, updates: Partial<Settings>) =>
+  applySettings(updates),
+);
+
+const SETTINGS_FILE_FILTERS = [{ name: 'JSON', extensions: ['json'] }];
+
+ipcMain.handle('settings:export', async () => {
+  const options: SaveDialogOptions = {
+    defaultPath: path.join(
+      app.getPath('documents'),
+      `${t('settings.exportFileName')}.json`,
+    ),
+    filters: SETTINGS_FILE_FILTERS,
   };
+  const result = mainWindow
+    ? await dialog.showSaveDialog(mainWindow, options)
+    : await dialog.showSaveDialog(options);
+  if (result.canceled || !result.filePath) {
+    return { saved: false };
+  }
+
+  await fs.promises.writeFile(
+    result.filePath,
+    `${JSON.stringify(createSettingsFile(getSettings()), null, 2)}\n`,
+    'utf8',
+  );
+  return { saved: true, filePath: result.filePath };
+});
+
+// Returns null when the dialog is cancelled.
+ipcMain.handle('settings:import', async (): Promise<SettingsUpdate | null> => {
+  const options: OpenDialogOptions = {
+    properties: ['openFile'],
+    filters: SETTINGS_FILE_FILTERS,
+  };
+  const result = mainWindow
+    ? await dialog.showOpenDialog(mainWindow, options)
+    : await dialog.showOpenDialog(options);
+  if (result.canceled || result.filePaths.length === 0) {
+    return null;
+  }
+
+  const content = await fs.promises.readFile(result.filePaths[0], 'utf8');
+  // Unknown and invalid fields are skipped and reported by applySettings.
+  return applySettings(readSettingsFile(content) as Partial<Settings>);
+});
+
+// API calls waiting for the outcome of the running recording; settled with
+// null when it ends without one, e.g. because it was discarded.
+let recordingWaiters: ((result: RecordingResult | null) => void)[] = [];
+
+const settleRecordingWaiters = (result: RecordingResult | null) => {
+  const waiters = recordingWaiters;
+  recordingWaiters = [];
+  waiters.forEach((resolve) => resolve(result));
+};
+
+// API calls waiting for a requested recording to start; settled with the
+// error message when it could not be started.
+let recordingStartWaiters: ((error: string | null) => void)[] = [];
+
+const settleRecordingStartWaiters = (error: string | null) => {
+  const waiters = recordingStartWaiters;
+  recordingStartWaiters = [];
+  waiters.forEach((resolve) => resolve(error));
+};
+
+ipcMain.handle('recording:state', (_event, state: RecordingState) => {
+  if (RECORDING_STATES.includes(state)) {
+    recordingState = state;
+    if (state === 'recording') {
+      settleRecordingStartWaiters(null);
+    }
+    if (state === 'idle') {
+      settleRecordingWaiters(null);
+    }
+    updateTray();
+    sendToOverlay('overlay:state', state);
+  }
+});
+
+// Sent about ten times per second while recording, hence no round trip.
+ipcMain.on('recording:level', (_event, level: RecordingLevel) => {
+  sendToOverlay('overlay:level', level);
+});
+
+ipcMain.handle('recording:result', (_event, result: RecordingResult) => {
+  // Only a failed start reports a result while a start is pending.
+  if ('error' in result) {
+    settleRecordingStartWaiters(result.error);
+  }
+  settleRecordingWaiters(result);
+  sendToOverlay('overlay:result', result);
+});
+
+ipcMain.handle('overlay:get-state', () => ({
+  ...getOverlaySettings(),
+  recordingState,
+}));
+
+ipcMain.handle('overlay:toggle-recording', () => {
+  sendHotkeyAction('toggle');
+});
+
+ipcMain.handle('overlay:set-expanded', (_event, expanded: boolean) => {
+  setOverlayExpanded(Boolean(expanded));
+});
+
+ipcMain.handle('overlay:hide', () => {
+  applySettingsAndNotify({ overlayEnabled: false });
+});
+
+// Returns the id of the new entry, or undefined if saving failed.
+const saveHistoryEntry = async (input: {
+  text: string;
+  language: string;
+  durationMs?: number;
+  speakers?: Record<string, string>;
+  audio: { buffer: Buffer; extension: string } | null;
+}): Promise<string | undefined> => {
+  const provider = getActiveProvider();
+  const entry = await addHistoryEntry({
+    text: input.text,
+    language: input.language,
+    durationMs: typeof input.durationMs === 'number' ? input.durationMs : null,
+    provider: provider.id,
+    model: provider.model,
+    speakers: input.speakers,
+    audio:
+      store.get('historyKeepAudio') && input.audio
+        ? { ...input.audio, directory: store.get('audioDirectory') }
+        : null,
+  }).catch((error): null => {
+    console.error('Saving history entry failed:', error);
+    return null;
+  });
+  updateTray();
+  return entry?.id;
+};
+
+const applyAudioRetention = async () => {
+  const maxTotalMb = store.get('audioMaxTotalMb');
+  try {
+    const removed = await pruneHistoryAudio({
+      maxAgeDays: store.get('audioMaxAgeDays'),
+      maxTotalBytes: maxTotalMb === null ? null : maxTotalMb * 1024 * 1024,
+    });
+    if (removed > 0) {
+      console.info(`Removed ${removed} recordings by retention rules.`);
+    }
+  } catch (error) {
+    console.error('Applying audio retention failed:', error);
+  }
+};
+
+const transcribeFile = async (input: {
+  filePath: string;
+  mimeType: string | undefined;
+  language: Language;
+  durationMs: number | null;
+  job: JobHandle;
+  // Overrides the selected provider, e.g. to re-transcribe a recording.
+  providerId?: ProviderId;
+}) => {
+  const { filePath, mimeType, language, durationMs, job, providerId } = input;
+  const provider = providerId
+    ? getTranscriptionProvider({ ...getProviderConfig(), provider: providerId })
+    : getActiveProvider();
+  const audioBuffer = await fs.promises.readFile(filePath);
+  const output = await provider.transcribe({
+    audio: audioBuffer,
+    fileName: path.basename(filePath),
+    mimeType,
+    language,
+    prompt: store.get('vocabulary').join(', ') || undefined,
+    signal: job.signal,
+    onProgress: job.report,
+  });
+  const normalized = normalizeTranscript(output, {
+    model: provider.model,
+    durationMs,
+  });
+  if (language === AUTO_LANGUAGE) {
+    normalized.languageDetected = normalized.language !== null;
+  } else if (!normalized.language) {
+    normalized.language = language;
+  }
+  const transcript = postProcessTranscript(
+    normalized,
+    getPostProcessingOptions(normalized.language),
+  );
+  return { transcript, audioBuffer };
+};
+
+/**
+ * Runs a transcription as a job the renderer can follow and cancel by
+ * `jobId`. Jobs without an id (e.g. from the retry queue) only time out.
+ */
+const runTranscriptionJob = <T>(
+  jobId: string | undefined,
+  sender: WebContents | null,
+  task: (job: JobHandle) => Promise<T>,
+) => {
+  const timeoutSeconds = store.get('transcriptionTimeoutSeconds');
+  return runJob(
+    {
+      id: jobId ?? randomUUID(),
+      timeoutMs: timeoutSeconds ? timeoutSeconds * 1000 : null,
+      onProgress: (stage) => {
+        if (jobId && sender && !sender.isDestroyed()) {
+          const progress: JobProgress = { jobId, stage };
+          sender.send('transcription:progress', progress);
+        }
+      },
+    },
+    task,
+  );
+};
+
+ipcMain.handle('transcription:cancel', (_event, jobId: string) => {
+  cancelJob(jobId);
 });
 
 ipcMain.handle(
   'transcribe-audio',
   async (
-    _event,
-    payload: { audioBuffer: ArrayBuffer; mimeType?: string; language: Language },
+    event,
+    payload: {
+      jobId?: string;
+      audioBuffer: ArrayBuffer;
+      mimeType?: string;
+      language: Language;
+      durationMs?: number;
+      // Segments of a chunked recording are saved once, after stitching.
+      saveToHistory?: boolean;
+      // Segments are queued as a whole recording by the renderer instead.
+      queueOnFailure?: boolean;
+    },
   ) => {
-    const { audioBuffer, mimeType, language } = payload;
+    const { audioBuffer, mimeType, language, durationMs } = payload;
     if (!audioBuffer) {
-      throw new Error('Keine Audiodaten empfangen.');
+      throw new Error(t('error.noAudio'));
     }
 
-    const extension = mimeType?.includes('wav')
-      ? '.wav'
-      : mimeType?.includes('ogg')
-        ? '.ogg'
-        : '.webm';
+    const extension = getAudioExtension(mimeType);
 
     const tempPath = path.join(
       app.getPath('temp'),
@@ -218,44 +650,749 @@ ipcMain.handle(
     await fs.promises.writeFile(tempPath, Buffer.from(audioBuffer));
 
     try {
-      const replicate = await ensureReplicateClient();
-      const audioBuffer = await fs.promises.readFile(tempPath);
-      const file = await replicate.files.create(audioBuffer);
-      const output = await replicate.run('openai/gpt-4o-transcribe', {
-        input: {
-          audio_file: file.urls.get,
-          language,
-        },
+      const result = await runTranscriptionJob(
+        payload.jobId,
+        event.sender,
+        (job) =>
+          transcribeFile({
+            filePath: tempPath,
+            mimeType,
+            language,
+            durationMs: typeof durationMs === 'number' ? durationMs : null,
+            job,
+          }),
+      );
+
+      if (payload.saveToHistory === false) {
+        return result.transcript;
+      }
+      const historyId = await saveHistoryEntry({
+        text: result.transcript.text,
+        language: result.transcript.language ?? language,
+        durationMs,
+        speakers: result.transcript.speakers,
+        audio: { buffer: result.audioBuffer, extension },
       });
-      return normalizeTranscript(output);
+      return { ...result.transcript, historyId };
     } catch (error) {
       console.error('Transcription failed:', error);
-      throw new Error(normalizeError(error));
+      // A cancelled recording was dropped on purpose, so it is not queued.
+      if (payload.queueOnFailure === false || isCancellation(error)) {
+        throw toIpcError(error);
+      }
+      await enqueueFailedRecording({
+        audio: Buffer.from(audioBuffer),
+        extension,
+        mimeType,
+        language,
+        durationMs: typeof durationMs === 'number' ? durationMs : null,
+        error: getErrorMessage(error),
+      });
+      throw toIpcError(error, { queued: true });
     } finally {
       fs.promises.unlink(tempPath).catch(() => undefined);
     }
   },
 );
 
+ipcMain.handle(
+  'transcript:rewrite',
+  async (_event, payload: { text: string; mode: string }) => {
+    try {
+      const text = await rewriteText({
+        text: payload.text,
+        mode: payload.mode,
+        customModes: store.get('customRewriteModes'),
+        config: { ...getProviderConfig(), rewriteModel: store.get('rewriteModel') },
+      });
+      return { text };
+    } catch (error) {
+      console.error('Rewrite failed:', error);
+      throw toIpcError(error);
+    }
+  },
+);
+
+// Applies the saved post-processing settings to a raw text for the preview.
+ipcMain.handle(
+  'post-processing:preview',
+  (_event, payload: { text: string; language: string | null }) => ({
+    text: postProcessText(
+      payload.text,
+      getPostProcessingOptions(payload.language),
+    ),
+    invalidRules: findInvalidRules(store.get('replacementRules')),
+  }),
+);
+
+// Stitched segments are post-processed once as a whole, see
+// saveStitchedTranscript in the renderer.
+ipcMain.handle(
+  'post-processing:apply',
+  (_event, payload: { text: string; language: string | null }) =>
+    postProcessText(payload.text, getPostProcessingOptions(payload.language)),
+);
+
+ipcMain.handle('retry-queue:list', () => listRetryQueue());
+
+ipcMain.handle(
+  'retry-queue:add',
+  async (
+    _event,
+    payload: {
+      audioBuffer: ArrayBuffer;
+      mimeType?: string;
+      language: Language;
+      durationMs?: number;
+      error: string;
+    },
+  ) => {
+    await enqueueFailedRecording({
+      audio: Buffer.from(payload.audioBuffer),
+      extension: getAudioExtension(payload.mimeType),
+      mimeType: payload.mimeType,
+      language: payload.language,
+      durationMs:
+        typeof payload.durationMs === 'number' ? payload.durationMs : null,
+      error: payload.error,
+    });
+  },
+);
+
+ipcMain.handle('retry-queue:retry', (_event, id: string) =>
+  retryQueueItem(id),
+);
+
+ipcMain.handle('retry-queue:discard', (_event, id: string) =>
+  discardQueueItem(id),
+);
+
+ipcMain.handle('retry-queue:online', () => retryAllNow());
+
+ipcMain.handle('files:open', async () => {
+  const options: OpenDialogOptions = {
+    properties: ['openFile', 'multiSelections'],
+    filters: [
+      { name: t('files.filterName'), extensions: SUPPORTED_EXTENSIONS },
+    ],
+  };
+  const result = mainWindow
+    ? await dialog.showOpenDialog(mainWindow, options)
+    : await dialog.showOpenDialog(options);
+  return result.canceled ? [] : result.filePaths;
+});
+
+// Imported files are saved to the history like recordings; used by the file
+// import and the local API.
+const transcribeImportedFile = async (input: {
+  jobId?: string;
+  sender: WebContents | null;
+  filePath: string;
+  language: Language;
+}): Promise<Transcript> => {
+  const { filePath, language } = input;
+  const extension = getAudioExtension(undefined, filePath);
+  const result = await runTranscriptionJob(input.jobId, input.sender, (job) =>
+    transcribeFile({
+      filePath,
+      mimeType: getMimeType(extension),
+      language,
+      durationMs: null,
+      job,
+    }),
+  );
+  const historyId = await saveHistoryEntry({
+    text: result.transcript.text,
+    language: result.transcript.language ?? language,
+    durationMs: result.transcript.durationMs ?? undefined,
+    speakers: result.transcript.speakers,
+    audio: { buffer: result.audioBuffer, extension },
+  });
+  return { ...result.transcript, historyId };
+};
+
+ipcMain.handle(
+  'transcribe-file',
+  async (
+    event,
+    payload: { jobId?: string; filePath: string; language: Language },
+  ) => {
+    const { filePath, language } = payload;
+    if (!filePath || !isSupportedAudioFile(filePath)) {
+      throw new Error(t('error.unsupportedFile'));
+    }
+
+    try {
+      return await transcribeImportedFile({
+        jobId: payload.jobId,
+        sender: event.sender,
+        filePath,
+        language,
+      });
+    } catch (error) {
+      console.error('File transcription failed:', error);
+      throw toIpcError(error);
+    }
+  },
+);
+
+const EXPORT_FILTER_NAMES: Record<ExportFormat, MessageKey> = {
+  srt: 'export.filterSrt',
+  vtt: 'export.filterVtt',
+  txt: 'export.filterTxt',
+  md: 'export.filterMd',
+  json: 'export.filterJson',
+};
+
+ipcMain.handle(
+  'transcript:export',
+  async (
+    _event,
+    payload: { transcript: Transcript; format: ExportFormat },
+  ) => {
+    const { transcript, format } = payload;
+    if (!transcript || !EXPORT_FORMATS.includes(format)) {
+      throw new Error(t('error.invalidExportFormat'));
+    }
+
+    const now = new Date();
+    const stamp = now.toISOString().slice(0, 16).replace(/[:T]/g, '-');
+    const options: SaveDialogOptions = {
+      defaultPath: path.join(
+        app.getPath('documents'),
+        `${t('export.fileName')}-${stamp}.${format}`,
+      ),
+      filters: [
+        { name: t(EXPORT_FILTER_NAMES[format]), extensions: [format] },
+      ],
+    };
+    const result = mainWindow
+      ? await dialog.showSaveDialog(mainWindow, options)
+      : await dialog.showSaveDialog(options);
+    if (result.canceled || !result.filePath) {
+      return { saved: false };
+    }
+
+    await fs.promises.writeFile(
+      result.filePath,
+      formatTranscript(transcript, format, now),
+      'utf8',
+    );
+    return { saved: true, filePath: result.filePath };
+  },
+);
+
+ipcMain.handle(
+  'history:add',
+  (
+    _event,
+    payload: {
+      text: string;
+      language: string;
+      durationMs?: number;
+      audioBuffer?: ArrayBuffer;
+      mimeType?: string;
+    },
+  ) =>
+    saveHistoryEntry({
+      text: payload.text,
+      language: payload.language,
+      durationMs: payload.durationMs,
+      audio: payload.audioBuffer
+        ? {
+            buffer: Buffer.from(payload.audioBuffer),
+            extension: getAudioExtension(payload.mimeType),
+          }
+        : null,
+    }),
+);
+
+ipcMain.handle('history:list', (_event, query?: string) =>
+  listHistory(query),
+);
+
+ipcMain.handle('history:audio', async (_event, id: string) => {
+  const audio = await readHistoryAudio(id);
+  return audio
+    ? {
+        data: audio.buffer,
+        mimeType: getMimeType(getAudioExtension(undefined, audio.filePath)),
+      }
+    : null;
+});
+
+// Runs the kept audio of a history entry through another language or
+// provider and replaces the entry's text with the new result.
+ipcMain.handle(
+  'history:retranscribe',
+  async (
+    event,
+    payload: {
+      jobId?: string;
+      id: string;
+      language: Language;
+      provider: ProviderId;
+    },
+  ) => {
+    const entry = getHistoryEntry(payload.id);
+    const audio = await readHistoryAudio(payload.id);
+    if (!entry || !audio) {
+      throw new Error(t('error.recordingMissing'));
+    }
+    const extension = getAudioExtension(undefined, audio.filePath);
+    const provider = PROVIDER_IDS.includes(payload.provider)
+      ? payload.provider
+      : store.get('transcriptionProvider');
+    try {
+      const result = await runTranscriptionJob(
+        payload.jobId,
+        event.sender,
+        (job) =>
+          transcribeFile({
+            filePath: audio.filePath,
+            mimeType: getMimeType(extension),
+            language: isLanguage(payload.language)
+              ? payload.language
+              : AUTO_LANGUAGE,
+            durationMs: entry.durationMs,
+            job,
+            providerId: provider,
+          }),
+      );
+      updateHistoryEntry(entry.id, {
+        text: result.transcript.text,
+        language: result.transcript.language ?? entry.language,
+        provider,
+        model: result.transcript.model,
+        // Earlier edits belonged to the previous result.
+        originalText: undefined,
+        speakers: result.transcript.speakers,
+      });
+      return { ...result.transcript, historyId: entry.id };
+    } catch (error) {
+      console.error('Re-transcription failed:', error);
+      throw toIpcError(error);
+    }
+  },
+);
+
+const isSpeakerNames = (value: unknown): value is Record<string, string> =>
+  Boolean(value) &&
+  typeof value === 'object' &&
+  Object.values(value as object).every((name) => typeof name === 'string');
+
+ipcMain.handle('history:update-text', (_event, payload: HistoryTextUpdate) => {
+  if (typeof payload?.text !== 'string') {
+    return;
+  }
+  updateHistoryText({
+    id: payload.id,
+    text: payload.text,
+    originalText:
+      typeof payload.originalText === 'string'
+        ? payload.originalText
+        : undefined,
+    speakers: isSpeakerNames(payload.speakers) ? payload.speakers : undefined,
+  });
+});
+
+ipcMain.handle('audio:choose-directory', async () => {
+  const options: OpenDialogOptions = {
+    properties: ['openDirectory', 'createDirectory'],
+    defaultPath: store.get('audioDirectory') ?? getDefaultAudioDir(),
+  };
+  const result = mainWindow
+    ? await dialog.showOpenDialog(mainWindow, options)
+    : await dialog.showOpenDialog(options);
+  if (result.canceled || result.filePaths.length === 0) {
+    return getPublicSettings();
+  }
+  return toPublicSettings(
+    updateSettings({ audioDirectory: result.filePaths[0] }).next,
+  );
+});
+
+ipcMain.handle('history:delete', async (_event, id: string) => {
+  await deleteHistoryEntry(id);
+  updateTray();
+});
+
+ipcMain.handle('history:clear', async () => {
+  await clearHistory();
+  updateTray();
+});
+
 ipcMain.handle('clipboard:write', (_event, text: string) => {
   clipboard.writeText(text ?? '');
 });
 
-ipcMain.handle('replicate:set-token', (_event, token: string) => {
-  const value = token?.trim();
+ipcMain.handle('clipboard:paste', async (_event, text: string) => {
+  clipboard.writeText(text ?? '');
+  // Only paste into other apps; the text is already in MicScribe itself.
+  if (mainWindow?.isFocused()) {
+    return;
+  }
+  await simulatePaste();
+});
+
+// Everything that helps reproducing a bug, but no keys or transcripts.
+const getDiagnosticsSummary = async () => {
+  const current = getSettings();
+  return {
+    provider: current.transcriptionProvider,
+    openaiBaseUrl: current.openaiBaseUrl,
+    openaiModel: current.openaiModel,
+    hasReplicateToken: hasActiveKey('replicate'),
+    hasOpenaiApiKey: hasActiveKey('openai-compatible'),
+    language: current.language,
+    uiLanguage: current.uiLanguage,
+    chunking: current.chunkingEnabled
+      ? `${current.chunkThresholdSeconds}s / ${current.chunkLengthSeconds}s`
+      : 'off',
+    transcriptionTimeoutSeconds: current.transcriptionTimeoutSeconds,
+    hotkeyRegistered,
+    localApi: getApiServerInfo()?.port ?? 'off',
+    retryQueue: (await listRetryQueue()).length,
+  };
+};
+
+ipcMain.handle('diagnostics:copy', async () => {
+  clipboard.writeText(
+    await createDiagnosticsReport(await getDiagnosticsSummary()),
+  );
+});
+
+// Errors shown in the renderer, so the log has both sides.
+ipcMain.handle(
+  'diagnostics:log',
+  (_event, payload: { category: string; message: string }) => {
+    logDiagnostic(
+      'error',
+      `[renderer] ${payload?.category}: ${payload?.message}`,
+    );
+  },
+);
+
+const MIC_PRIVACY_URLS: Partial<Record<NodeJS.Platform, string>> = {
+  win32: 'ms-settings:privacy-microphone',
+  darwin:
+    'x-apple.systempreferences:com.apple.preference.security?Privacy_Microphone',
+};
+
+// Returns false where the system has no microphone privacy page (Linux).
+ipcMain.handle('app:open-mic-privacy', async () => {
+  const url = MIC_PRIVACY_URLS[process.platform];
+  if (!url) {
+    return false;
+  }
+  await shell.openExternal(url);
+  return true;
+});
+
+const getKeyState = (): KeyState => ({
+  keys: listKeys(),
+  encryptionAvailable: isEncryptionAvailable(),
+});
+
+const isProviderId = (value: unknown): value is ProviderId =>
+  PROVIDER_IDS.includes(value as ProviderId);
+
+const testKey = (provider: ProviderId, key: string) =>
+  testProviderKey({
+    provider,
+    key,
+    openaiBaseUrl: store.get('openaiBaseUrl'),
+  });
+
+ipcMain.handle('keys:list', () => getKeyState());
+
+type KeyTestInput = { provider: ProviderId; value?: string; id?: string };
+
+// Tests a typed key, or a stored one when only its id is given.
+ipcMain.handle('keys:test', async (_event, input: KeyTestInput) => {
+  if (!isProviderId(input?.provider)) {
+    throw new Error(t('error.keyProviderInvalid'));
+  }
+  const value = input.id ? getKeyValue(input.id) : input.value?.trim();
+  if (!value) {
+    throw new Error(t('error.apiKeyMissing'));
+  }
+  return testKey(input.provider, value);
+});
+
+type KeyAddInput = { provider: ProviderId; name: string; value: string };
+
+// Keys are tested before they are stored; only a definite rejection by the
+// provider blocks saving, so offline use and local servers keep working.
+ipcMain.handle('keys:add', async (_event, input: KeyAddInput) => {
+  if (!isProviderId(input?.provider)) {
+    throw new Error(t('error.keyProviderInvalid'));
+  }
+  const value = input.value?.trim();
   if (!value) {
-    return { hasReplicateToken: Boolean(store.get('replicateApiToken')) };
+    throw new Error(t('error.apiKeyMissing'));
+  }
+  const result = await testKey(input.provider, value);
+  if (result === 'invalid') {
+    throw new Error(t('error.keyRejected'));
   }
-  const next = updateSettings({ replicateApiToken: value });
-  return { hasReplicateToken: Boolean(next.replicateApiToken) };
+  const count =
+    listKeys().filter((entry) => entry.provider === input.provider).length + 1;
+  const key = addKey({
+    provider: input.provider,
+    name: input.name?.trim() || t('settings.keyDefaultName', { count }),
+    value,
+  });
+  return { ...getKeyState(), added: key, test: result };
 });
 
-ipcMain.handle('replicate:clear-token', () => {
-  const next = updateSettings({ replicateApiToken: null });
-  return { hasReplicateToken: Boolean(next.replicateApiToken) };
+ipcMain.handle('keys:delete', (_event, id: string) => {
+  deleteKey(id);
+  return getKeyState();
 });
 
-app.whenReady().then(createWindow);
+ipcMain.handle('keys:activate', (_event, provider: ProviderId, id: string) => {
+  if (isProviderId(provider)) {
+    setActiveKey(provider, id);
+  }
+  return getKeyState();
+});
+
+type LegacyKeyStore = {
+  get: (key: 'replicateApiToken' | 'openaiApiKey') => unknown;
+  delete: (key: 'replicateApiToken' | 'openaiApiKey') => void;
+};
+
+/**
+ * Earlier versions kept the keys as plain text in the settings file. They are
+ * moved to the credential store once and removed from the settings.
+ */
+const migrateLegacyKeys = () => {
+  const legacy = store as unknown as LegacyKeyStore;
+  const entries: [ProviderId, 'replicateApiToken' | 'openaiApiKey'][] = [
+    ['replicate', 'replicateApiToken'],
+    ['openai-compatible', 'openaiApiKey'],
+  ];
+  for (const [provider, field] of entries) {
+    const value = legacy.get(field);
+    if (typeof value === 'string' && value.trim()) {
+      addKey({
+        provider,
+        name: t('settings.keyMigratedName'),
+        value: value.trim(),
+      });
+    }
+    legacy.delete(field);
+  }
+  encryptPlaintextKeys();
+};
+
+/**
+ * Brings the settings file to SETTINGS_VERSION. Runs after migrateLegacyKeys,
+ * which still needs the fields the first migration removes.
+ */
+const migrateStoredSettings = () => {
+  const version = store.get('settingsVersion') ?? 0;
+  if (version >= SETTINGS_VERSION) {
+    return;
+  }
+  store.store = {
+    ...migrateSettings(store.store, version),
+    settingsVersion: SETTINGS_VERSION,
+  };
+};
+
+const setupRetryQueue = () => {
+  initRetryQueue({
+    transcribe: async (item, audioPath) => {
+      const result = await runTranscriptionJob(undefined, null, (job) =>
+        transcribeFile({
+          filePath: audioPath,
+          mimeType: item.mimeType,
+          language: item.language,
+          durationMs: item.durationMs,
+          job,
+        }),
+      );
+      const historyId = await saveHistoryEntry({
+        text: result.transcript.text,
+        language: result.transcript.language ?? item.language,
+        durationMs: item.durationMs ?? undefined,
+        speakers: result.transcript.speakers,
+        audio: { buffer: result.audioBuffer, extension: item.extension },
+      });
+      return { ...result.transcript, historyId };
+    },
+    onCompleted: (_item, transcript) => {
+      mainWindow?.webContents.send('retry-queue:completed', transcript);
+    },
+    onChange: (items) => {
+      mainWindow?.webContents.send('retry-queue:changed', items);
+    },
+  });
+};
+
+// Local API
+// Recordings are driven by the renderer like hotkey recordings, but leave
+// copying and pasting to the caller.
+const sendApiRecordingAction = (action: 'start' | 'stop') => {
+  if (!mainWindow) {
+    throw createApiError(503, t('error.apiUnavailable'));
+  }
+  mainWindow.webContents.send('api:recording', action);
+};
+
+const API_ROUTES: ApiRoutes = {
+  'GET /status': () => ({
+    version: app.getVersion(),
+    recordingState,
+    language: store.get('language'),
+    provider: store.get('transcriptionProvider'),
+  }),
+  // Answers once the microphone is recording.
+  'POST /recording/start': async () => {
+    if (recordingState !== 'idle' || recordingStartWaiters.length > 0) {
+      throw createApiError(409, t('error.apiBusy'));
+    }
+    const outcome = new Promise<string | null>((resolve) => {
+      recordingStartWaiters.push(resolve);
+    });
+    try {
+      sendApiRecordingAction('start');
+    } catch (error) {
+      settleRecordingStartWaiters(null);
+      throw error;
+    }
+    const error = await outcome;
+    if (error) {
+      throw createApiError(502, error);
+    }
+    return {};
+  },
+  // Answers once the recording is transcribed.
+  'POST /recording/stop': async () => {
+    if (!isRecordingOpen(recordingState)) {
+      throw createApiError(409, t('error.apiNotRecording'));
+    }
+    const outcome = new Promise<RecordingResult | null>((resolve) => {
+      recordingWaiters.push(resolve);
+    });
+    sendApiRecordingAction('stop');
+    const result = await outcome;
+    if (!result) {
+      throw createApiError(409, t('error.apiRecordingDiscarded'));
+    }
+    if ('error' in result) {
+      throw createApiError(502, result.error);
+    }
+    return result;
+  },
+  'POST /transcribe': async ({ body }) => {
+    const { file, language } = body;
+    if (typeof file !== 'string' || !path.isAbsolute(file)) {
+      throw createApiError(400, t('error.apiInvalidRequest'));
+    }
+    if (!isSupportedAudioFile(file)) {
+      throw createApiError(400, t('error.unsupportedFile'));
+    }
+    if (!fs.existsSync(file)) {
+      throw createApiError(404, t('error.apiFileMissing'));
+    }
+    return transcribeImportedFile({
+      sender: null,
+      filePath: file,
+      language: isLanguage(language) ? language : store.get('language'),
+    });
+  },
+  'GET /transcripts/last': () => {
+    const [latest] = listHistory();
+    if (!latest) {
+      throw createApiError(404, t('error.apiNoTranscript'));
+    }
+    return latest;
+  },
+};
+
+let apiServerError: string | null = null;
+// Changes are applied one after another, so quick toggling never leaves two
+// servers behind.
+let apiServerUpdate: Promise<void> = Promise.resolve();
+
+const applyApiServer = () => {
+  apiServerUpdate = apiServerUpdate.then(async () => {
+    apiServerError = null;
+    if (!store.get('apiServerEnabled')) {
+      await disableApiServer();
+      return;
+    }
+    const port = store.get('apiServerPort');
+    try {
+      await startApiServer(port, API_ROUTES);
+    } catch (error) {
+      console.error('Starting the local API failed:', error);
+      apiServerError =
+        (error as { code?: unknown }).code === 'EADDRINUSE'
+          ? t('error.apiPortInUse', { port })
+          : getErrorMessage(error);
+    }
+  });
+  return apiServerUpdate;
+};
+
+const getApiState = async (): Promise<ApiState> => {
+  await apiServerUpdate;
+  const info = getApiServerInfo();
+  return {
+    url: info ? `http://${API_HOST}:${info.port}` : null,
+    error: apiServerError,
+  };
+};
+
+ipcMain.handle('api:state', () => getApiState());
+
+// The token only goes to the clipboard, never to the renderer.
+ipcMain.handle('api:copy-token', async () => {
+  const info = await readApiInfo();
+  if (info) {
+    clipboard.writeText(info.token);
+  }
+  return Boolean(info);
+});
+
+ipcMain.handle('api:renew-token', async () => {
+  await renewApiToken(store.get('apiServerPort'));
+  return getApiState();
+});
+
+app.whenReady().then(() => {
+  if (cliArgs) {
+    return;
+  }
+  setMainLanguage(getSettings().uiLanguage);
+  migrateLegacyKeys();
+  migrateStoredSettings();
+  void applyAudioRetention();
+  createWindow();
+  setupTray();
+  applyOverlay();
+  applyOpenAtLogin();
+  applyHotkey();
+  setupRetryQueue();
+  void applyApiServer();
+});
+
+app.on('second-instance', () => {
+  showWindow();
+});
+
+app.on('before-quit', () => {
+  isQuitting = true;
+});
+
+app.on('will-quit', () => {
+  globalShortcut.unregisterAll();
+  destroyTray();
+});
 
 app.on('window-all-closed', () => {
   app.quit();
@@ -0,0 +1,153 @@
+import fs from 'node:fs';
+import http from 'node:http';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  API_HOST,
+  ApiInfo,
+  createApiError,
+  getApiServerInfo,
+  renewApiToken,
+  startApiServer,
+  stopApiServer,
+} from './api-server';
+
+const userData = vi.hoisted(() => ({ path: '' }));
+
+vi.mock('electron', () => ({
+  app: { getPath: () => userData.path },
+  net: { isOnline: () => true },
+}));
+
+const getFreePort = () =>
+  new Promise<number>((resolve) => {
+    const probe = net.createServer();
+    probe.listen(0, API_HOST, () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+
+// fetch does not allow setting Host, which the checks below need.
+const request = (
+  info: ApiInfo,
+  options: {
+    method?: string;
+    path?: string;
+    headers?: Record<string, string>;
+    body?: string;
+  } = {},
+) =>
+  new Promise<{ status: number; data: Record<string, unknown> }>(
+    (resolve, reject) => {
+      const outgoing = http.request(
+        {
+          host: API_HOST,
+          port: info.port,
+          method: options.method ?? 'GET',
+          path: options.path ?? '/status',
+          headers: {
+            Authorization: `Bearer ${info.token}`,
+            ...options.headers,
+          },
+        },
+        (response) => {
+          const chunks: Buffer[] = [];
+          response.on('data', (chunk: Buffer) => chunks.push(chunk));
+          response.on('end', () =>
+            resolve({
+              status: response.statusCode ?? 0,
+              data: JSON.parse(Buffer.concat(chunks).toString('utf8')),
+            }),
+          );
+        },
+      );
+      outgoing.on('error', reject);
+      outgoing.end(options.body);
+    },
+  );
+
+let info: ApiInfo;
+
+beforeEach(async () => {
+  userData.path = fs.mkdtempSync(path.join(os.tmpdir(), 'micscribe-'));
+  await startApiServer(await getFreePort(), {
+    'GET /status': () => ({ recordingState: 'idle' }),
+    'POST /echo': ({ body }) => body,
+    'POST /busy': () => {
+      throw createApiError(409, 'Busy');
+    },
+  });
+  info = getApiServerInfo() as ApiInfo;
+});
+
+afterEach(async () => {
+  await stopApiServer();
+  fs.rmSync(userData.path, { recursive: true, force: true });
+});
+
+describe('local API', () => {
+  it('answers requests with the token', async () => {
+    expect(await request(info)).toEqual({
+      status: 200,
+      data: { recordingState: 'idle' },
+    });
+  });
+
+  it('rejects requests without or with a wrong token', async () => {
+    const missing = await request(info, { headers: { Authorization: '' } });
+    const wrong = await request({ ...info, token: 'wrong' });
+
+    expect(missing.status).toBe(401);
+    expect(wrong.status).toBe(401);
+  });
+
+  it('rejects the old token after renewing it', async () => {
+    const renewed = await renewApiToken(info.port);
+
+    expect((await request(info)).status).toBe(401);
+    expect((await request(renewed)).status).toBe(200);
+  });
+
+  it('rejects requests from web pages', async () => {
+    const response = await request(info, {
+      headers: { Origin: 'https://example.com' },
+    });
+
+    expect(response.status).toBe(403);
+  });
+
+  it('rejects foreign Host headers against DNS rebinding', async () => {
+    const foreign = await request(info, {
+      headers: { Host: `example.com:${info.port}` },
+    });
+    const local = await request(info, {
+      headers: { Host: `localhost:${info.port}` },
+    });
+
+    expect(foreign.status).toBe(403);
+    expect(local.status).toBe(200);
+  });
+
+  it('keeps the token across restarts', async () => {
+    await startApiServer(info.port, {});
+
+    expect(getApiServerInfo()?.token).toBe(info.token);
+  });
+
+  it('answers route errors, bad bodies and unknown paths', async () => {
+    const busy = await request(info, { method: 'POST', path: '/busy' });
+    const malformed = await request(info, {
+      method: 'POST',
+      path: '/echo',
+      body: '[1]',
+    });
+    const missing = await request(info, { path: '/missing' });
+
+    expect(busy).toMatchObject({ status: 409, data: { error: 'Busy' } });
+    expect(malformed.status).toBe(400);
+    expect(missing.status).toBe(404);
+  });
+});
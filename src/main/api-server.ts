@@ -0,0 +1,207 @@
+import { app } from 'electron';
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { t } from './i18n';
+import { classifyError, getErrorMessage } from './errors';
+
+// Only reachable from this computer.
+export const API_HOST = '127.0.0.1';
+
+const INFO_FILE_NAME = 'api-server.json';
+const MAX_BODY_BYTES = 64 * 1024;
+
+// Port and token of the local API, read by the CLI. The token is kept across
+// restarts so configured scripts and plugins keep working; switching the API
+// off deletes it.
+export type ApiInfo = { port: number; token: string };
+
+export type ApiError = Error & { status: number };
+
+export const createApiError = (status: number, message: string): ApiError =>
+  Object.assign(new Error(message), { status });
+
+export type ApiRequest = {
+  body: Record<string, unknown>;
+  query: URLSearchParams;
+};
+
+// Keyed by method and path, e.g. "POST /transcribe". Handlers return the JSON
+// response or throw; ApiErrors choose the status.
+export type ApiRoutes = Record<
+  string,
+  (request: ApiRequest) => unknown | Promise<unknown>
+>;
+
+let server: http.Server | null = null;
+let activeInfo: ApiInfo | null = null;
+
+const getInfoPath = () => path.join(app.getPath('userData'), INFO_FILE_NAME);
+
+const createToken = () => randomBytes(32).toString('hex');
+
+const isApiInfo = (value: unknown): value is ApiInfo =>
+  Boolean(value) &&
+  typeof value === 'object' &&
+  Number.isInteger((value as ApiInfo).port) &&
+  typeof (value as ApiInfo).token === 'string' &&
+  (value as ApiInfo).token.length > 0;
+
+export const readApiInfo = async (): Promise<ApiInfo | null> => {
+  try {
+    const data: unknown = JSON.parse(
+      await fs.promises.readFile(getInfoPath(), 'utf8'),
+    );
+    return isApiInfo(data) ? data : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeApiInfo = async (info: ApiInfo) => {
+  await fs.promises.mkdir(path.dirname(getInfoPath()), { recursive: true });
+  await fs.promises.writeFile(getInfoPath(), JSON.stringify(info, null, 2), {
+    encoding: 'utf8',
+    mode: 0o600,
+  });
+};
+
+// Scripts using the old token are rejected from now on.
+export const renewApiToken = async (port: number): Promise<ApiInfo> => {
+  const info = { port, token: createToken() };
+  await writeApiInfo(info);
+  if (activeInfo) {
+    activeInfo = { ...activeInfo, token: info.token };
+  }
+  return info;
+};
+
+export const getApiServerInfo = () => activeInfo;
+
+const sendJson = (
+  response: http.ServerResponse,
+  status: number,
+  data: unknown,
+) => {
+  response.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Cache-Control': 'no-store',
+  });
+  response.end(JSON.stringify(data ?? {}));
+};
+
+const isAuthorized = (header: string | undefined, token: string) => {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(header ?? '');
+  return (
+    actual.length === expected.length && timingSafeEqual(actual, expected)
+  );
+};
+
+const readBody = async (
+  request: http.IncomingMessage,
+): Promise<Record<string, unknown>> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw createApiError(413, t('error.apiInvalidRequest'));
+    }
+    chunks.push(chunk as Buffer);
+  }
+  if (size === 0) {
+    return {};
+  }
+  try {
+    const data: unknown = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    if (data && typeof data === 'object' && !Array.isArray(data)) {
+      return data as Record<string, unknown>;
+    }
+  } catch {
+    // Answered below like any other malformed body.
+  }
+  throw createApiError(400, t('error.apiInvalidRequest'));
+};
+
+const handleRequest = async (
+  request: http.IncomingMessage,
+  response: http.ServerResponse,
+  info: ApiInfo,
+  routes: ApiRoutes,
+) => {
+  // Web pages can reach localhost too. Browsers always send an Origin with
+  // such requests, and a foreign Host means DNS rebinding.
+  const { host, origin, authorization } = request.headers;
+  if (
+    origin ||
+    (host !== `${API_HOST}:${info.port}` && host !== `localhost:${info.port}`)
+  ) {
+    sendJson(response, 403, { error: t('error.apiForbidden') });
+    return;
+  }
+  if (!isAuthorized(authorization, activeInfo?.token ?? info.token)) {
+    sendJson(response, 401, { error: t('error.apiUnauthorized') });
+    return;
+  }
+  const url = new URL(request.url ?? '/', `http://${API_HOST}`);
+  const route = routes[`${request.method} ${url.pathname}`];
+  if (!route) {
+    sendJson(response, 404, { error: t('error.apiNotFound') });
+    return;
+  }
+  try {
+    const body = request.method === 'POST' ? await readBody(request) : {};
+    sendJson(response, 200, await route({ body, query: url.searchParams }));
+  } catch (error) {
+    const { status } = error as Partial<ApiError>;
+    if (typeof status !== 'number') {
+      console.error(`API request ${url.pathname} failed:`, error);
+    }
+    sendJson(response, typeof status === 'number' ? status : 500, {
+      error: getErrorMessage(error),
+      category: classifyError(error),
+    });
+  }
+};
+
+export const stopApiServer = async () => {
+  const running = server;
+  server = null;
+  activeInfo = null;
+  if (running) {
+    await new Promise<void>((resolve) => running.close(() => resolve()));
+  }
+};
+
+// Without the info file the CLI reports the API as switched off rather than
+// as not running.
+export const disableApiServer = async () => {
+  await stopApiServer();
+  await fs.promises.rm(getInfoPath(), { force: true });
+};
+
+/**
+ * Serves `routes` on 127.0.0.1:`port`, replacing a running server. Rejects
+ * when the port cannot be used, e.g. because another program has it.
+ */
+export const startApiServer = async (port: number, routes: ApiRoutes) => {
+  await stopApiServer();
+  const stored = await readApiInfo();
+  const info = { port, token: stored?.token ?? createToken() };
+  const next = http.createServer((request, response) => {
+    void handleRequest(request, response, info, routes);
+  });
+  await new Promise<void>((resolve, reject) => {
+    next.once('error', reject);
+    next.listen(port, API_HOST, () => {
+      next.off('error', reject);
+      resolve();
+    });
+  });
+  next.on('error', (error) => console.error('Local API failed:', error));
+  await writeApiInfo(info);
+  server = next;
+  activeInfo = info;
+};
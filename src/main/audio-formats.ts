@@ -0,0 +1,36 @@
+import path from 'node:path';
+import { MIME_TYPES_BY_EXTENSION } from '../shared/audio-formats';
+
+export const getAudioExtension = (mimeType?: string, fileName?: string) => {
+  const fromName = fileName ? path.extname(fileName).toLowerCase() : '';
+  if (fromName in MIME_TYPES_BY_EXTENSION) {
+    return fromName;
+  }
+
+  const type = mimeType?.toLowerCase() ?? '';
+  if (type.includes('wav')) {
+    return '.wav';
+  }
+  if (type.includes('ogg')) {
+    return '.ogg';
+  }
+  if (type.includes('flac')) {
+    return '.flac';
+  }
+  if (type.includes('mpeg') || type.includes('mp3')) {
+    return '.mp3';
+  }
+  if (type.includes('m4a') || type === 'audio/mp4' || type === 'audio/aac') {
+    return '.m4a';
+  }
+  if (type.startsWith('video/mp4')) {
+    return '.mp4';
+  }
+  return '.webm';
+};
+
+export const getMimeType = (extension: string) =>
+  MIME_TYPES_BY_EXTENSION[extension] ?? 'application/octet-stream';
+
+export const isSupportedAudioFile = (fileName: string) =>
+  path.extname(fileName).toLowerCase() in MIME_TYPES_BY_EXTENSION;
@@ -0,0 +1,127 @@
+import path from 'node:path';
+import { API_HOST, readApiInfo } from './api-server';
+import { t } from './i18n';
+
+// `MicScribe --cli <command>` sends the command to the running app through
+// the local API and exits with the result on stdout. On Windows the exe has
+// no console; assets/micscribe-cli.cmd redirects the output for it.
+const CLI_ARG = '--cli';
+
+type CliOptions = {
+  args: string[];
+  language: string | null;
+  json: boolean;
+};
+
+type CliCommand = {
+  method: 'GET' | 'POST';
+  path: string;
+  // Number of positional arguments after the command.
+  arguments?: number;
+  body?: (options: CliOptions) => Record<string, unknown>;
+  // What is printed without --json.
+  format: (data: Record<string, unknown>) => string;
+};
+
+const formatText = (data: Record<string, unknown>) =>
+  typeof data.text === 'string' ? data.text : '';
+
+const COMMANDS: Record<string, CliCommand> = {
+  status: {
+    method: 'GET',
+    path: '/status',
+    format: (data) =>
+      Object.entries(data)
+        .map(([key, value]) => `${key}: ${value}`)
+        .join('\n'),
+  },
+  start: { method: 'POST', path: '/recording/start', format: () => '' },
+  stop: { method: 'POST', path: '/recording/stop', format: formatText },
+  transcribe: {
+    method: 'POST',
+    path: '/transcribe',
+    arguments: 1,
+    // The app may run with another working directory.
+    body: ({ args, language }) => ({
+      file: path.resolve(args[0]),
+      ...(language ? { language } : {}),
+    }),
+    format: formatText,
+  },
+  last: { method: 'GET', path: '/transcripts/last', format: formatText },
+};
+
+// Returns the arguments after --cli, or null for a normal app start.
+export const getCliArgs = (argv: string[]): string[] | null => {
+  const index = argv.indexOf(CLI_ARG);
+  return index === -1 ? null : argv.slice(index + 1);
+};
+
+const parseOptions = (args: string[]): CliOptions => {
+  const options: CliOptions = { args: [], language: null, json: false };
+  for (let index = 0; index < args.length; index += 1) {
+    if (args[index] === '--json') {
+      options.json = true;
+    } else if (args[index] === '--language') {
+      options.language = args[index + 1] ?? null;
+      index += 1;
+    } else {
+      options.args.push(args[index]);
+    }
+  }
+  return options;
+};
+
+const writeLine = (stream: NodeJS.WriteStream, text: string) =>
+  new Promise<void>((resolve) => {
+    stream.write(text ? `${text}\n` : '', () => resolve());
+  });
+
+// Resolves with the exit code: 0 on success, 1 on errors, 2 on bad usage.
+export const runCli = async (argv: string[]): Promise<number> => {
+  const [name, ...rest] = argv;
+  const options = parseOptions(rest);
+  const command = Object.keys(COMMANDS).includes(name)
+    ? COMMANDS[name]
+    : undefined;
+  if (!command || options.args.length !== (command.arguments ?? 0)) {
+    await writeLine(process.stderr, t('cli.usage'));
+    return 2;
+  }
+  const info = await readApiInfo();
+  if (!info) {
+    await writeLine(process.stderr, t('cli.notEnabled'));
+    return 1;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`http://${API_HOST}:${info.port}${command.path}`, {
+      method: command.method,
+      headers: {
+        Authorization: `Bearer ${info.token}`,
+        'Content-Type': 'application/json',
+      },
+      body: command.body ? JSON.stringify(command.body(options)) : undefined,
+    });
+  } catch {
+    await writeLine(process.stderr, t('cli.notRunning'));
+    return 1;
+  }
+  const data = (await response.json().catch(() => ({}))) as Record<
+    string,
+    unknown
+  >;
+  if (!response.ok) {
+    await writeLine(
+      process.stderr,
+      typeof data.error === 'string' ? data.error : response.statusText,
+    );
+    return 1;
+  }
+  await writeLine(
+    process.stdout,
+    options.json ? JSON.stringify(data, null, 2) : command.format(data),
+  );
+  return 0;
+};
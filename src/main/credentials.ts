@@ -0,0 +1,167 @@
+import { safeStorage } from 'electron';
+import { randomUUID } from 'node:crypto';
+import Store from 'electron-store';
+import type { ProviderId } from '../shared/settings';
+import type { KeyInfo } from '../shared/credentials';
+
+type StoredKey = {
+  id: string;
+  provider: ProviderId;
+  name: string;
+  // Base64 ciphertext from safeStorage, or the plain key if `encrypted` is false.
+  value: string;
+  encrypted: boolean;
+  createdAt: string;
+};
+
+type CredentialsData = {
+  keys: StoredKey[];
+  activeKeys: Partial<Record<ProviderId, string>>;
+};
+
+type CredentialsStore = {
+  get: <Key extends keyof CredentialsData>(key: Key) => CredentialsData[Key];
+  set: <Key extends keyof CredentialsData>(
+    key: Key,
+    value: CredentialsData[Key],
+  ) => void;
+};
+
+const store = new Store<CredentialsData>({
+  name: 'credentials',
+  defaults: { keys: [], activeKeys: {} },
+}) as unknown as CredentialsStore;
+
+/**
+ * safeStorage falls back to a hard-coded password on Linux without a
+ * keyring ("basic_text"); that is treated as unavailable.
+ */
+export const isEncryptionAvailable = () => {
+  if (!safeStorage.isEncryptionAvailable()) {
+    return false;
+  }
+  return (
+    process.platform !== 'linux' ||
+    safeStorage.getSelectedStorageBackend() !== 'basic_text'
+  );
+};
+
+const protect = (value: string): Pick<StoredKey, 'value' | 'encrypted'> =>
+  isEncryptionAvailable()
+    ? {
+        value: safeStorage.encryptString(value).toString('base64'),
+        encrypted: true,
+      }
+    : { value, encrypted: false };
+
+const reveal = (key: StoredKey): string | null => {
+  if (!key.encrypted) {
+    return key.value;
+  }
+  try {
+    return safeStorage.decryptString(Buffer.from(key.value, 'base64'));
+  } catch (error) {
+    console.error(`Decrypting key "${key.name}" failed:`, error);
+    return null;
+  }
+};
+
+const toKeyInfo = (key: StoredKey): KeyInfo => {
+  const value = reveal(key) ?? '';
+  return {
+    id: key.id,
+    provider: key.provider,
+    name: key.name,
+    encrypted: key.encrypted,
+    active: store.get('activeKeys')[key.provider] === key.id,
+    hint: value.length > 8 ? value.slice(-4) : '',
+    createdAt: key.createdAt,
+  };
+};
+
+export const listKeys = (): KeyInfo[] => store.get('keys').map(toKeyInfo);
+
+export const hasActiveKey = (provider: ProviderId) => {
+  const id = store.get('activeKeys')[provider];
+  return store.get('keys').some((key) => key.id === id);
+};
+
+export const getActiveKeyValue = (provider: ProviderId): string | null => {
+  const id = store.get('activeKeys')[provider];
+  const key = store.get('keys').find((entry) => entry.id === id);
+  return key ? reveal(key) : null;
+};
+
+export const getKeyValue = (id: string): string | null => {
+  const key = store.get('keys').find((entry) => entry.id === id);
+  return key ? reveal(key) : null;
+};
+
+export const setActiveKey = (provider: ProviderId, id: string) => {
+  const keys = store.get('keys');
+  if (keys.some((key) => key.id === id && key.provider === provider)) {
+    store.set('activeKeys', { ...store.get('activeKeys'), [provider]: id });
+  }
+};
+
+// The first key of a provider becomes its active key.
+export const addKey = (input: {
+  provider: ProviderId;
+  name: string;
+  value: string;
+}): KeyInfo => {
+  const key: StoredKey = {
+    id: randomUUID(),
+    provider: input.provider,
+    name: input.name,
+    ...protect(input.value),
+    createdAt: new Date().toISOString(),
+  };
+  store.set('keys', [...store.get('keys'), key]);
+  if (!hasActiveKey(input.provider)) {
+    setActiveKey(input.provider, key.id);
+  }
+  return toKeyInfo(key);
+};
+
+// Deleting the active key activates the next key of the same provider.
+export const deleteKey = (id: string) => {
+  const keys = store.get('keys');
+  const key = keys.find((entry) => entry.id === id);
+  if (!key) {
+    return;
+  }
+  const remaining = keys.filter((entry) => entry.id !== id);
+  store.set('keys', remaining);
+
+  const activeKeys = { ...store.get('activeKeys') };
+  if (activeKeys[key.provider] === id) {
+    const next = remaining.find((entry) => entry.provider === key.provider);
+    if (next) {
+      activeKeys[key.provider] = next.id;
+    } else {
+      delete activeKeys[key.provider];
+    }
+    store.set('activeKeys', activeKeys);
+  }
+};
+
+/**
+ * Encrypts keys that were stored in plain text while no keyring was
+ * available, once encryption works. Must run after app `ready`.
+ */
+export const encryptPlaintextKeys = () => {
+  if (!isEncryptionAvailable()) {
+    return;
+  }
+  const keys = store.get('keys');
+  if (keys.every((key) => key.encrypted)) {
+    return;
+  }
+  store.set(
+    'keys',
+    keys.map((key) =>
+      key.encrypted ? key : { ...key, ...protect(key.value) },
+    ),
+  );
+};
@@ -0,0 +1,117 @@
+import { app } from 'electron';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { inspect } from 'node:util';
+
+type LogLevel = 'info' | 'warn' | 'error';
+
+const LOG_FILE_NAME = 'micscribe.log';
+const MAX_LOG_BYTES = 1024 * 1024;
+// The current file plus micscribe.1.log and micscribe.2.log.
+const KEPT_LOG_FILES = 3;
+const REPORT_LOG_LINES = 200;
+
+const getLogPath = (index = 0) =>
+  path.join(
+    app.getPath('logs'),
+    index === 0 ? LOG_FILE_NAME : `micscribe.${index}.log`,
+  );
+
+// Writes are chained so lines keep their order and rotation never races.
+let pendingWrite: Promise<void> = Promise.resolve();
+
+const rotateIfNeeded = async () => {
+  const size = await fs.promises
+    .stat(getLogPath())
+    .then((stats) => stats.size)
+    .catch((): number => 0);
+  if (size < MAX_LOG_BYTES) {
+    return;
+  }
+  for (let index = KEPT_LOG_FILES - 1; index > 0; index -= 1) {
+    await fs.promises
+      .rename(getLogPath(index - 1), getLogPath(index))
+      .catch((): undefined => undefined);
+  }
+};
+
+const formatValue = (value: unknown) => {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (value instanceof Error) {
+    return value.stack ?? value.message;
+  }
+  return inspect(value, { depth: 3, breakLength: Infinity });
+};
+
+export const logDiagnostic = (level: LogLevel, ...values: unknown[]) => {
+  const line = `${new Date().toISOString()} [${level}] ${values
+    .map(formatValue)
+    .join(' ')}\n`;
+  pendingWrite = pendingWrite
+    .then(async () => {
+      await fs.promises.mkdir(app.getPath('logs'), { recursive: true });
+      await rotateIfNeeded();
+      await fs.promises.appendFile(getLogPath(), line, 'utf8');
+    })
+    .catch((): undefined => undefined);
+};
+
+/**
+ * Mirrors console.warn and console.error of the main process into the log,
+ * so the existing error handling ends up in diagnostics without changes.
+ */
+export const captureConsole = () => {
+  const { warn, error } = console;
+  console.warn = (...values: unknown[]) => {
+    warn(...values);
+    logDiagnostic('warn', ...values);
+  };
+  console.error = (...values: unknown[]) => {
+    error(...values);
+    logDiagnostic('error', ...values);
+  };
+};
+
+const readLogTail = async (maxLines: number) => {
+  const lines: string[] = [];
+  // Newest file first; older files only fill up what is missing.
+  for (
+    let index = 0;
+    index < KEPT_LOG_FILES && lines.length < maxLines;
+    index += 1
+  ) {
+    const content = await fs.promises
+      .readFile(getLogPath(index), 'utf8')
+      .catch(() => '');
+    const fileLines = content.split('\n').filter(Boolean);
+    lines.unshift(...fileLines.slice(-(maxLines - lines.length)));
+  }
+  return lines;
+};
+
+/**
+ * Plain-text report for bug reports: versions, the given settings summary
+ * and the latest log lines. Callers must not pass secrets.
+ */
+export const createDiagnosticsReport = async (
+  summary: Record<string, unknown>,
+) => {
+  await pendingWrite;
+  const lines = await readLogTail(REPORT_LOG_LINES);
+  const { electron, chrome, node } = process.versions;
+  return [
+    `MicScribe ${app.getVersion()}`,
+    `Electron ${electron}, Chrome ${chrome}, Node ${node}`,
+    `${os.type()} ${os.release()} (${process.arch}), locale ${app.getLocale()}`,
+    '',
+    ...Object.entries(summary).map(
+      ([key, value]) => `${key}: ${formatValue(value)}`,
+    ),
+    '',
+    `Log (${getLogPath()}):`,
+    ...lines,
+  ].join('\n');
+};
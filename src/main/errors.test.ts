@@ -0,0 +1,50 @@
+import { describe, expect, it, vi } from 'vitest';
+import { classifyError, createCategorizedError, toIpcError } from './errors';
+import { decodeErrorMessage } from '../shared/errors';
+
+vi.mock('electron', () => ({ net: { isOnline: () => true } }));
+
+const withStatus = (status: number) =>
+  Object.assign(new Error(`Request failed with ${status}`), {
+    response: { status },
+  });
+
+describe('classifyError', () => {
+  it('keeps the category of categorized errors', () => {
+    expect(classifyError(createCategorizedError('token-missing', 'x'))).toBe(
+      'token-missing',
+    );
+  });
+
+  it('maps HTTP statuses', () => {
+    expect(classifyError(withStatus(401))).toBe('token-invalid');
+    expect(classifyError(withStatus(413))).toBe('payload-too-large');
+    expect(classifyError(withStatus(429))).toBe('rate-limited');
+    expect(classifyError(withStatus(500))).toBe('unknown');
+  });
+
+  it('recognizes network failures, cancellation and timeouts', () => {
+    const network = Object.assign(new Error('fetch failed'), {
+      cause: { code: 'ENOTFOUND' },
+    });
+    expect(classifyError(network)).toBe('offline');
+    expect(classifyError(new DOMException('x', 'AbortError'))).toBe(
+      'cancelled',
+    );
+    expect(classifyError(new DOMException('x', 'TimeoutError'))).toBe(
+      'timeout',
+    );
+    expect(classifyError('not an error')).toBe('unknown');
+  });
+});
+
+describe('toIpcError', () => {
+  it('carries the category to the renderer', () => {
+    const error = toIpcError(withStatus(429));
+    expect(decodeErrorMessage(error.message)).toEqual({
+      category: 'rate-limited',
+      queued: false,
+      message: 'Request failed with 429',
+    });
+  });
+});
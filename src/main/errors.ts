@@ -0,0 +1,108 @@
+import { net } from 'electron';
+import { t } from './i18n';
+import {
+  ErrorCategory,
+  encodeErrorMessage,
+  isErrorCategory,
+} from '../shared/errors';
+
+export type CategorizedError = Error & { category: ErrorCategory };
+
+export const createCategorizedError = (
+  category: ErrorCategory,
+  message: string,
+): CategorizedError => Object.assign(new Error(message), { category });
+
+export const getStatusCategory = (status: number): ErrorCategory => {
+  switch (status) {
+    case 401:
+    case 403:
+      return 'token-invalid';
+    case 413:
+      return 'payload-too-large';
+    case 415:
+      return 'unsupported-format';
+    case 429:
+      return 'rate-limited';
+    default:
+      return 'unknown';
+  }
+};
+
+const NETWORK_ERROR_CODES = [
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ENETUNREACH',
+  'UND_ERR_CONNECT_TIMEOUT',
+];
+
+// fetch reports network failures as "fetch failed" with the system error as
+// `cause`; the Replicate client keeps the HTTP response on its ApiError.
+const getErrorDetails = (error: Error) => {
+  const { cause, response } = error as {
+    cause?: { code?: unknown };
+    response?: { status?: unknown };
+  };
+  return {
+    code: cause?.code ?? (error as { code?: unknown }).code,
+    status: response?.status,
+  };
+};
+
+export const classifyError = (error: unknown): ErrorCategory => {
+  if (!(error instanceof Error)) {
+    return 'unknown';
+  }
+  const { category } = error as Partial<CategorizedError>;
+  if (isErrorCategory(category)) {
+    return category;
+  }
+  if (error.name === 'AbortError') {
+    return 'cancelled';
+  }
+  if (error.name === 'TimeoutError') {
+    return 'timeout';
+  }
+  const { code, status } = getErrorDetails(error);
+  if (typeof status === 'number' && getStatusCategory(status) !== 'unknown') {
+    return getStatusCategory(status);
+  }
+  if (
+    !net.isOnline() ||
+    NETWORK_ERROR_CODES.includes(code as string) ||
+    error.message === 'fetch failed'
+  ) {
+    return 'offline';
+  }
+  return 'unknown';
+};
+
+export const getErrorMessage = (error: unknown): string => {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (typeof error === 'string') {
+    return error;
+  }
+  return t('error.transcriptionUnknown');
+};
+
+/**
+ * Error to rethrow from an IPC handler; the renderer decodes the category
+ * with decodeErrorMessage.
+ */
+export const toIpcError = (error: unknown, options?: { queued?: boolean }) => {
+  const message = getErrorMessage(error);
+  return new Error(
+    encodeErrorMessage({
+      category: classifyError(error),
+      queued: Boolean(options?.queued),
+      message: options?.queued
+        ? `${message} ${t('error.queuedNotice')}`
+        : message,
+    }),
+  );
+};
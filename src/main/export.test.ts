@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { Transcript } from '../shared/transcript';
+import { formatTranscript } from './export';
+
+const transcript: Transcript = {
+  text: 'Hallo Welt. Zweiter Satz.',
+  segments: [
+    { start: 0, end: 1.5, text: 'Hallo Welt.' },
+    { start: 3661.25, end: 3662.0004, text: 'Zweiter Satz.' },
+  ],
+  segmentsEstimated: false,
+  language: 'de',
+  model: 'test',
+  durationMs: 3662000,
+};
+
+describe('formatTranscript', () => {
+  it('writes numbered SRT cues with comma milliseconds', () => {
+    expect(formatTranscript(transcript, 'srt')).toBe(
+      [
+        '1',
+        '00:00:00,000 --> 00:00:01,500',
+        'Hallo Welt.',
+        '',
+        '2',
+        '01:01:01,250 --> 01:01:02,000',
+        'Zweiter Satz.',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('writes a WebVTT file with dot milliseconds', () => {
+    expect(formatTranscript(transcript, 'vtt')).toBe(
+      [
+        'WEBVTT',
+        '',
+        '00:00:00.000 --> 00:00:01.500',
+        'Hallo Welt.',
+        '',
+        '01:01:01.250 --> 01:01:02.000',
+        'Zweiter Satz.',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('writes speakers as voice spans and escapes cue text', () => {
+    const diarized: Transcript = {
+      ...transcript,
+      segments: [
+        { start: 0, end: 1, text: 'a < b & c --> d', speaker: 'A' },
+      ],
+      speakers: { A: 'Anna <Chefin>' },
+    };
+    expect(formatTranscript(diarized, 'vtt').split('\n')[3]).toBe(
+      '<v Anna &lt;Chefin&gt;>a &lt; b &amp; c --&gt; d',
+    );
+  });
+
+  it('writes the plain text and the JSON with the export date', () => {
+    const createdAt = new Date('2024-05-01T10:00:00.000Z');
+    expect(formatTranscript(transcript, 'txt')).toBe(`${transcript.text}\n`);
+    expect(JSON.parse(formatTranscript(transcript, 'json', createdAt))).toEqual(
+      { ...transcript, createdAt: '2024-05-01T10:00:00.000Z' },
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  ExportFormat,
+  Transcript,
+  TranscriptSegment,
+  getSpeakerName,
+} from '../shared/transcript';
+import { getMainLocale, t } from './i18n';
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const formatTimestamp = (seconds: number, separator: ',' | '.') => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+};
+
+// Segment text with the speaker in front for diarized transcripts.
+const labelSegment = (transcript: Transcript, segment: TranscriptSegment) => {
+  const name = getSpeakerName(transcript, segment);
+  return name ? `${name}: ${segment.text}` : segment.text;
+};
+
+const toSrt = (transcript: Transcript) =>
+  transcript.segments
+    .map(
+      (segment, index) =>
+        `${index + 1}\n${formatTimestamp(segment.start, ',')} --> ${formatTimestamp(segment.end, ',')}\n${labelSegment(transcript, segment)}\n`,
+    )
+    .join('\n');
+
+// Cue text is markup. Escaping ">" also keeps "-->" from reading as a
+// timing line.
+const escapeVtt = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// WebVTT has voice spans for speakers, which players can style or show.
+const toVttCue = (transcript: Transcript, segment: TranscriptSegment) => {
+  const name = getSpeakerName(transcript, segment);
+  const text = escapeVtt(segment.text);
+  return name ? `<v ${escapeVtt(name)}>${text}` : text;
+};
+
+const toVtt = (transcript: Transcript) =>
+  [
+    'WEBVTT\n',
+    ...transcript.segments.map(
+      (segment) =>
+        `${formatTimestamp(segment.start, '.')} --> ${formatTimestamp(segment.end, '.')}\n${toVttCue(transcript, segment)}\n`,
+    ),
+  ].join('\n');
+
+const toMarkdown = (transcript: Transcript, createdAt: Date) => {
+  const meta = [
+    `- ${t('export.mdDate')}: ${createdAt.toLocaleString(getMainLocale())}`,
+    transcript.language
+      ? `- ${t('export.mdLanguage')}: ${transcript.language}`
+      : null,
+    `- ${t('export.mdModel')}: ${transcript.model}`,
+  ].filter(Boolean);
+  const segments = transcript.segments.map(
+    (segment) =>
+      `- **[${formatTimestamp(segment.start, '.').slice(0, 8)}]** ${labelSegment(transcript, segment)}`,
+  );
+
+  return [
+    `# ${t('export.mdTitle')}`,
+    '',
+    ...meta,
+    '',
+    `## ${t('export.mdText')}`,
+    '',
+    transcript.text,
+    '',
+    `## ${t(
+      transcript.segmentsEstimated
+        ? 'export.mdSegmentsEstimated'
+        : 'export.mdSegments',
+    )}`,
+    '',
+    ...segments,
+    '',
+  ].join('\n');
+};
+
+export const formatTranscript = (
+  transcript: Transcript,
+  format: ExportFormat,
+  createdAt = new Date(),
+): string => {
+  switch (format) {
+    case 'srt':
+      return toSrt(transcript);
+    case 'vtt':
+      return toVtt(transcript);
+    case 'md':
+      return toMarkdown(transcript, createdAt);
+    case 'json':
+      return `${JSON.stringify(
+        { ...transcript, createdAt: createdAt.toISOString() },
+        null,
+        2,
+      )}\n`;
+    case 'txt':
+    default:
+      return `${transcript.text}\n`;
+  }
+};
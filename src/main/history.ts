@@ -0,0 +1,257 @@
+import { app } from 'electron';
+import path from 'node:path';
+import fs from 'node:fs';
+import { randomUUID } from 'node:crypto';
+import Store from 'electron-store';
+import type { HistoryEntry, HistoryTextUpdate } from '../shared/history';
+
+export type NewHistoryEntry = {
+  text: string;
+  language: string;
+  durationMs: number | null;
+  provider: string;
+  model: string;
+  speakers?: Record<string, string>;
+  audio?: {
+    buffer: Buffer;
+    extension: string;
+    // Custom recordings folder; the default directory is used when null.
+    directory: string | null;
+  } | null;
+};
+
+export type RetentionRules = {
+  maxAgeDays: number | null;
+  maxTotalBytes: number | null;
+};
+
+type HistoryStore = {
+  get: (key: 'entries') => HistoryEntry[];
+  set: (key: 'entries', value: HistoryEntry[]) => void;
+};
+
+const store = new Store<{ entries: HistoryEntry[] }>({
+  name: 'history',
+  defaults: { entries: [] },
+}) as unknown as HistoryStore;
+
+export const getDefaultAudioDir = () =>
+  path.join(app.getPath('userData'), 'history-audio');
+
+const resolveAudioPath = (audioFile: string) =>
+  path.isAbsolute(audioFile)
+    ? audioFile
+    : path.join(getDefaultAudioDir(), audioFile);
+
+const removeAudioFile = async (audioFile: string | null) => {
+  if (!audioFile) {
+    return;
+  }
+  await fs.promises
+    .unlink(resolveAudioPath(audioFile))
+    .catch((): void => undefined);
+};
+
+// Every whitespace-separated term has to occur in the text (case-insensitive).
+const matchesQuery = (entry: HistoryEntry, query: string) => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const text = entry.text.toLowerCase();
+  return terms.every((term) => text.includes(term));
+};
+
+export const listHistory = (query?: string): HistoryEntry[] => {
+  const entries = store.get('entries');
+  return query?.trim()
+    ? entries.filter((entry) => matchesQuery(entry, query))
+    : entries;
+};
+
+export const addHistoryEntry = async (
+  input: NewHistoryEntry,
+): Promise<HistoryEntry> => {
+  const id = randomUUID();
+  let audioFile: string | null = null;
+
+  if (input.audio) {
+    const fileName = `${id}${input.audio.extension}`;
+    const directory = input.audio.directory ?? getDefaultAudioDir();
+    await fs.promises.mkdir(directory, { recursive: true });
+    await fs.promises.writeFile(
+      path.join(directory, fileName),
+      input.audio.buffer,
+    );
+    audioFile = input.audio.directory
+      ? path.join(directory, fileName)
+      : fileName;
+  }
+
+  const entry: HistoryEntry = {
+    id,
+    text: input.text,
+    language: input.language,
+    durationMs: input.durationMs,
+    provider: input.provider,
+    model: input.model,
+    createdAt: new Date().toISOString(),
+    audioFile,
+    ...(input.speakers ? { speakers: input.speakers } : {}),
+  };
+
+  // Newest first, so the list can be rendered as stored.
+  store.set('entries', [entry, ...store.get('entries')]);
+  return entry;
+};
+
+export const getHistoryEntry = (id: string): HistoryEntry | null =>
+  store.get('entries').find((entry) => entry.id === id) ?? null;
+
+// Returns null when the entry has no audio or the file was removed meanwhile.
+export const readHistoryAudio = async (
+  id: string,
+): Promise<{ buffer: Buffer; filePath: string } | null> => {
+  const entry = getHistoryEntry(id);
+  if (!entry?.audioFile) {
+    return null;
+  }
+  const filePath = resolveAudioPath(entry.audioFile);
+  try {
+    return { buffer: await fs.promises.readFile(filePath), filePath };
+  } catch {
+    return null;
+  }
+};
+
+export const updateHistoryEntry = (
+  id: string,
+  changes: Partial<
+    Pick<
+      HistoryEntry,
+      | 'text'
+      | 'language'
+      | 'provider'
+      | 'model'
+      | 'originalText'
+      | 'speakers'
+    >
+  >,
+): HistoryEntry | null => {
+  const entry = getHistoryEntry(id);
+  if (!entry) {
+    return null;
+  }
+  const updated = { ...entry, ...changes };
+  store.set(
+    'entries',
+    store.get('entries').map((item) => (item.id === id ? updated : item)),
+  );
+  return updated;
+};
+
+// Manual edits replace the text; the first one keeps the transcribed text.
+export const updateHistoryText = ({
+  id,
+  text,
+  originalText,
+  speakers,
+}: HistoryTextUpdate) => {
+  const entry = getHistoryEntry(id);
+  return entry
+    ? updateHistoryEntry(id, {
+        text,
+        originalText: originalText ?? entry.originalText ?? entry.text,
+        ...(speakers ? { speakers } : {}),
+      })
+    : null;
+};
+
+const getFileSize = async (filePath: string) => {
+  try {
+    return (await fs.promises.stat(filePath)).size;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Deletes kept recordings older than `maxAgeDays`, then the oldest ones until
+ * the rest fits into `maxTotalBytes`. Transcripts stay in the history; only
+ * their audio is dropped. Returns the number of removed files.
+ */
+export const pruneHistoryAudio = async (
+  rules: RetentionRules,
+): Promise<number> => {
+  const entries = store.get('entries');
+  const sizes = new Map<string, number>();
+  for (const entry of entries) {
+    if (entry.audioFile) {
+      const size = await getFileSize(resolveAudioPath(entry.audioFile));
+      if (size !== null) {
+        sizes.set(entry.id, size);
+      }
+    }
+  }
+
+  const expired = new Set<string>();
+  // Entries without a file on disk only get their reference cleared.
+  for (const entry of entries) {
+    if (entry.audioFile && !sizes.has(entry.id)) {
+      expired.add(entry.id);
+    }
+  }
+  if (rules.maxAgeDays !== null) {
+    const cutoff = Date.now() - rules.maxAgeDays * 24 * 60 * 60 * 1000;
+    for (const entry of entries) {
+      if (sizes.has(entry.id) && Date.parse(entry.createdAt) < cutoff) {
+        expired.add(entry.id);
+      }
+    }
+  }
+  if (rules.maxTotalBytes !== null) {
+    let total = 0;
+    // Entries are stored newest first, so the newest recordings are kept.
+    for (const entry of entries) {
+      const size = sizes.get(entry.id);
+      if (size === undefined || expired.has(entry.id)) {
+        continue;
+      }
+      total += size;
+      if (total > rules.maxTotalBytes) {
+        expired.add(entry.id);
+      }
+    }
+  }
+  if (expired.size === 0) {
+    return 0;
+  }
+
+  await Promise.all(
+    entries
+      .filter((entry) => expired.has(entry.id) && sizes.has(entry.id))
+      .map((entry) => removeAudioFile(entry.audioFile)),
+  );
+  store.set(
+    'entries',
+    store
+      .get('entries')
+      .map((entry) =>
+        expired.has(entry.id) ? { ...entry, audioFile: null } : entry,
+      ),
+  );
+  return [...expired].filter((id) => sizes.has(id)).length;
+};
+
+export const deleteHistoryEntry = async (id: string) => {
+  const entries = store.get('entries');
+  const entry = entries.find((item) => item.id === id);
+  if (!entry) {
+    return;
+  }
+  store.set('entries', entries.filter((item) => item.id !== id));
+  await removeAudioFile(entry.audioFile);
+};
+
+export const clearHistory = async () => {
+  const entries = store.get('entries');
+  store.set('entries', []);
+  await Promise.all(entries.map((entry) => removeAudioFile(entry.audioFile)));
+};
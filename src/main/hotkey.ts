@@ -0,0 +1,84 @@
+import { globalShortcut } from 'electron';
+import type { HotkeyMode } from '../shared/settings';
+
+export type HotkeyAction = 'toggle' | 'start' | 'stop';
+
+// globalShortcut only reports key presses, never releases. While a key is
+// held, Windows keeps re-sending the hotkey through keyboard auto-repeat, so
+// hold-to-talk treats the end of those repeats as the release. The first
+// repeat arrives after the keyboard delay (up to ~1s), later ones much faster.
+const HOLD_FIRST_REPEAT_MS = 1100;
+const HOLD_REPEAT_MS = 350;
+
+// Elsewhere the shortcut is not reliably repeated while held, so a held key
+// could not be told from a released one; hold mode falls back to toggling.
+const HOLD_MODE_SUPPORTED = process.platform === 'win32';
+
+let registeredAccelerator: string | null = null;
+let holdTimer: NodeJS.Timeout | null = null;
+let isHolding = false;
+
+const clearHoldTimer = () => {
+  if (holdTimer) {
+    clearTimeout(holdTimer);
+    holdTimer = null;
+  }
+};
+
+export const unregisterHotkey = () => {
+  clearHoldTimer();
+  isHolding = false;
+  if (registeredAccelerator) {
+    globalShortcut.unregister(registeredAccelerator);
+    registeredAccelerator = null;
+  }
+};
+
+/**
+ * Registers the global recording shortcut, replacing any previous one.
+ * Returns false when the accelerator is invalid or taken by another app.
+ */
+export const registerHotkey = (
+  accelerator: string | null,
+  mode: HotkeyMode,
+  onAction: (action: HotkeyAction) => void,
+): boolean => {
+  unregisterHotkey();
+  if (!accelerator) {
+    return false;
+  }
+
+  const handlePress = () => {
+    if (mode === 'toggle' || !HOLD_MODE_SUPPORTED) {
+      onAction('toggle');
+      return;
+    }
+
+    const isRepeat = isHolding;
+    if (!isHolding) {
+      isHolding = true;
+      onAction('start');
+    }
+    clearHoldTimer();
+    holdTimer = setTimeout(
+      () => {
+        holdTimer = null;
+        isHolding = false;
+        onAction('stop');
+      },
+      isRepeat ? HOLD_REPEAT_MS : HOLD_FIRST_REPEAT_MS,
+    );
+  };
+
+  try {
+    if (!globalShortcut.register(accelerator, handlePress)) {
+      return false;
+    }
+  } catch (error) {
+    console.error('Registering hotkey failed:', error);
+    return false;
+  }
+
+  registeredAccelerator = accelerator;
+  return true;
+};
@@ -0,0 +1,19 @@
+import {
+  MessageKey,
+  MessageParams,
+  UiLanguage,
+  getLocale,
+  translate,
+} from '../shared/i18n';
+
+// Mirrors the uiLanguage setting so dialogs, errors and exports match the UI.
+let currentLanguage: UiLanguage = 'de';
+
+export const setMainLanguage = (language: UiLanguage) => {
+  currentLanguage = language;
+};
+
+export const getMainLocale = () => getLocale(currentLanguage);
+
+export const t = (key: MessageKey, params?: MessageParams) =>
+  translate(currentLanguage, key, params);
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { JobStage } from '../shared/jobs';
+import { t } from './i18n';
+import { JobHandle, cancelJob, isCancellation, runJob } from './jobs';
+
+// A task that never settles and ignores its signal.
+const hang = () => new Promise<never>(() => undefined);
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('runJob', () => {
+  it('resolves with the result and reports the stages', async () => {
+    const stages: JobStage[] = [];
+    const result = await runJob(
+      { id: 'job', timeoutMs: null, onProgress: (stage) => stages.push(stage) },
+      async ({ report }) => {
+        report('uploading');
+        return 'text';
+      },
+    );
+    expect(result).toBe('text');
+    expect(stages).toEqual(['uploading', 'done']);
+  });
+
+  it('rejects when cancelled, even if the task ignores it', async () => {
+    let handle: JobHandle | null = null;
+    const job = runJob(
+      { id: 'cancelled', timeoutMs: null, onProgress: () => undefined },
+      (received) => {
+        handle = received;
+        return hang();
+      },
+    );
+    cancelJob('cancelled');
+
+    const error = await job.catch((reason: Error) => reason);
+    expect(isCancellation(error)).toBe(true);
+    expect(error.message).toBe(t('error.transcriptionCancelled'));
+    expect(handle?.signal.aborted).toBe(true);
+  });
+
+  it('rejects with a timeout error once the time is up', async () => {
+    vi.useFakeTimers();
+    const job = runJob(
+      { id: 'slow', timeoutMs: 2000, onProgress: () => undefined },
+      hang,
+    ).catch((reason: Error) => reason);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    const error = await job;
+    expect(error.name).toBe('TimeoutError');
+    expect(isCancellation(error)).toBe(false);
+    expect(error.message).toBe(
+      t('error.transcriptionTimeout', { seconds: 2 }),
+    );
+  });
+
+  it('prefers the abort reason over the error the task throws', async () => {
+    const job = runJob(
+      { id: 'wrapped', timeoutMs: null, onProgress: () => undefined },
+      ({ signal }) =>
+        new Promise<never>((_resolve, reject) => {
+          signal.addEventListener('abort', () =>
+            reject(new Error('Request aborted by client')),
+          );
+        }),
+    );
+    cancelJob('wrapped');
+
+    const error = await job.catch((reason: Error) => reason);
+    expect(error.message).toBe(t('error.transcriptionCancelled'));
+  });
+
+  it('ignores cancelling a finished job', async () => {
+    await runJob(
+      { id: 'finished', timeoutMs: null, onProgress: () => undefined },
+      async () => 'text',
+    );
+    expect(() => cancelJob('finished')).not.toThrow();
+  });
+});
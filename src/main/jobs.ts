@@ -0,0 +1,79 @@
+import { t } from './i18n';
+import type { JobStage } from '../shared/jobs';
+
+// Handed to the code doing the work: abort on `signal`, report stages.
+export type JobHandle = {
+  signal: AbortSignal;
+  report: (stage: JobStage) => void;
+};
+
+const jobs = new Map<string, AbortController>();
+
+// Abort reasons follow the DOM names, so fetch and the Replicate client
+// reject with the same errors.
+const createAbortReason = (
+  message: string,
+  name: 'AbortError' | 'TimeoutError',
+) => new DOMException(message, name);
+
+export const isCancellation = (error: unknown) =>
+  error instanceof Error && error.name === 'AbortError';
+
+/**
+ * Runs `task` as a cancellable job. It rejects right away when the job is
+ * cancelled through cancelJob or `timeoutMs` passes, even if the task does
+ * not observe the signal.
+ */
+export const runJob = async <T>(
+  options: {
+    id: string;
+    timeoutMs: number | null;
+    onProgress: (stage: JobStage) => void;
+  },
+  task: (job: JobHandle) => Promise<T>,
+): Promise<T> => {
+  const { timeoutMs } = options;
+  const controller = new AbortController();
+  jobs.set(options.id, controller);
+  const timer = timeoutMs
+    ? setTimeout(() => {
+        const seconds = Math.round(timeoutMs / 1000);
+        controller.abort(
+          createAbortReason(
+            t('error.transcriptionTimeout', { seconds }),
+            'TimeoutError',
+          ),
+        );
+      }, timeoutMs)
+    : null;
+  const aborted = new Promise<never>((_resolve, reject) => {
+    controller.signal.addEventListener(
+      'abort',
+      () => reject(controller.signal.reason),
+      { once: true },
+    );
+  });
+
+  try {
+    const result = await Promise.race([
+      task({ signal: controller.signal, report: options.onProgress }),
+      aborted,
+    ]);
+    options.onProgress('done');
+    return result;
+  } catch (error) {
+    // Clients wrap aborts in their own errors; the reason is more readable.
+    throw controller.signal.aborted ? controller.signal.reason : error;
+  } finally {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    jobs.delete(options.id);
+  }
+};
+
+export const cancelJob = (id: string) => {
+  jobs
+    .get(id)
+    ?.abort(createAbortReason(t('error.transcriptionCancelled'), 'AbortError'));
+};
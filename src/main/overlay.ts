@@ -0,0 +1,113 @@
+import { BrowserWindow, Rectangle, screen } from 'electron';
+import type { OverlayPosition } from '../shared/settings';
+
+const OVERLAY_WIDTH = 280;
+const OVERLAY_HEIGHT = 64;
+// Extra room for the result toast below the bar.
+const OVERLAY_EXPANDED_HEIGHT = 200;
+const SCREEN_MARGIN = 24;
+
+let overlayWindow: BrowserWindow | null = null;
+
+const isVisibleOn = (position: OverlayPosition, area: Rectangle) =>
+  position.x >= area.x &&
+  position.y >= area.y &&
+  position.x + OVERLAY_WIDTH <= area.x + area.width &&
+  position.y + OVERLAY_HEIGHT <= area.y + area.height;
+
+// A remembered position on a monitor that is no longer connected falls back
+// to the bottom right corner of the primary display.
+const resolvePosition = (saved: OverlayPosition | null): OverlayPosition => {
+  if (
+    saved &&
+    screen
+      .getAllDisplays()
+      .some((display) => isVisibleOn(saved, display.workArea))
+  ) {
+    return saved;
+  }
+  const area = screen.getPrimaryDisplay().workArea;
+  return {
+    x: area.x + area.width - OVERLAY_WIDTH - SCREEN_MARGIN,
+    y: area.y + area.height - OVERLAY_EXPANDED_HEIGHT - SCREEN_MARGIN,
+  };
+};
+
+export const isOverlayOpen = () => Boolean(overlayWindow);
+
+/**
+ * Opens the always-on-top overlay. It never takes focus, so clicking it
+ * keeps the app the user is dictating into in front.
+ */
+export const openOverlay = (options: {
+  url: string;
+  preload: string;
+  position: OverlayPosition | null;
+  onMoved: (position: OverlayPosition) => void;
+}) => {
+  if (overlayWindow) {
+    overlayWindow.showInactive();
+    return;
+  }
+
+  const position = resolvePosition(options.position);
+  overlayWindow = new BrowserWindow({
+    ...position,
+    width: OVERLAY_WIDTH,
+    height: OVERLAY_HEIGHT,
+    frame: false,
+    transparent: true,
+    resizable: false,
+    maximizable: false,
+    minimizable: false,
+    fullscreenable: false,
+    skipTaskbar: true,
+    alwaysOnTop: true,
+    focusable: false,
+    show: false,
+    webPreferences: {
+      preload: options.preload,
+      contextIsolation: true,
+      nodeIntegration: false,
+      backgroundThrottling: false,
+    },
+  });
+  overlayWindow.setAlwaysOnTop(true, 'floating');
+
+  overlayWindow.on('moved', () => {
+    if (!overlayWindow) {
+      return;
+    }
+    const [x, y] = overlayWindow.getPosition();
+    options.onMoved({ x, y });
+  });
+
+  overlayWindow.on('closed', () => {
+    overlayWindow = null;
+  });
+
+  overlayWindow.once('ready-to-show', () => overlayWindow?.showInactive());
+  overlayWindow.loadURL(options.url);
+};
+
+export const closeOverlay = () => {
+  overlayWindow?.close();
+  overlayWindow = null;
+};
+
+export const setOverlayExpanded = (expanded: boolean) => {
+  if (!overlayWindow) {
+    return;
+  }
+  const [x, y] = overlayWindow.getPosition();
+  overlayWindow.setBounds({
+    x,
+    y,
+    width: OVERLAY_WIDTH,
+    height: expanded ? OVERLAY_EXPANDED_HEIGHT : OVERLAY_HEIGHT,
+  });
+};
+
+export const sendToOverlay = (channel: string, payload?: unknown) => {
+  overlayWindow?.webContents.send(channel, payload);
+};
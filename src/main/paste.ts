@@ -0,0 +1,27 @@
+import { execFile } from 'node:child_process';
+import { t } from './i18n';
+
+const SEND_PASTE_SCRIPT =
+  "Add-Type -AssemblyName System.Windows.Forms; [System.Windows.Forms.SendKeys]::SendWait('^v')";
+
+// Sends Ctrl+V to whichever window currently has the keyboard focus.
+export const simulatePaste = (): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (process.platform !== 'win32') {
+      reject(new Error(t('error.pasteUnsupported')));
+      return;
+    }
+
+    execFile(
+      'powershell.exe',
+      ['-NoProfile', '-NonInteractive', '-Command', SEND_PASTE_SCRIPT],
+      { windowsHide: true },
+      (error) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        resolve();
+      },
+    );
+  });
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import type { Transcript } from '../shared/transcript';
+import {
+  PostProcessingOptions,
+  findInvalidRules,
+  postProcessText,
+  postProcessTranscript,
+} from './post-processing';
+
+const options = (
+  overrides: Partial<PostProcessingOptions>,
+): PostProcessingOptions => ({
+  rules: [],
+  voiceCommands: false,
+  language: null,
+  ...overrides,
+});
+
+describe('postProcessText', () => {
+  it('replaces spoken punctuation', () => {
+    expect(
+      postProcessText(
+        'Hallo Komma Welt Punkt',
+        options({ voiceCommands: true, language: 'de' }),
+      ),
+    ).toBe('Hallo, Welt.');
+  });
+
+  it('swallows punctuation the model put around a command', () => {
+    expect(
+      postProcessText(
+        'Hallo, Komma, Welt',
+        options({ voiceCommands: true, language: 'de' }),
+      ),
+    ).toBe('Hallo, Welt');
+  });
+
+  it('turns line and paragraph commands into line breaks', () => {
+    expect(
+      postProcessText(
+        'first line new line second new paragraph third',
+        options({ voiceCommands: true, language: 'en' }),
+      ),
+    ).toBe('first line\nsecond\n\nthird');
+  });
+
+  it('leaves commands alone when disabled or for other languages', () => {
+    expect(postProcessText('Hallo Komma Welt', options({}))).toBe(
+      'Hallo Komma Welt',
+    );
+    expect(
+      postProcessText(
+        'Hallo Komma Welt',
+        options({ voiceCommands: true, language: 'fr' }),
+      ),
+    ).toBe('Hallo Komma Welt');
+  });
+
+  it('applies plain and regex rules in order', () => {
+    expect(
+      postProcessText(
+        'Micscribe kostet 5 Euro',
+        options({
+          rules: [
+            { find: 'Micscribe', replace: 'MicScribe', isRegex: false },
+            { find: '(\\d+) Euro', replace: '$1 €', isRegex: true },
+          ],
+        }),
+      ),
+    ).toBe('MicScribe kostet 5 €');
+  });
+
+  it('skips rules whose pattern does not compile', () => {
+    const rules = [
+      { find: '(', replace: 'x', isRegex: true },
+      { find: 'a', replace: 'b', isRegex: false },
+    ];
+    expect(findInvalidRules(rules)).toEqual([0]);
+    expect(postProcessText('(a)', options({ rules }))).toBe('(b)');
+  });
+});
+
+describe('postProcessTranscript', () => {
+  it('processes text and segments and keeps the raw text', () => {
+    const transcript: Transcript = {
+      text: 'eins Punkt',
+      segments: [{ start: 0, end: 1, text: 'eins Punkt' }],
+      segmentsEstimated: false,
+      language: 'de',
+      model: 'test',
+      durationMs: 1000,
+    };
+    const result = postProcessTranscript(
+      transcript,
+      options({ voiceCommands: true, language: 'de' }),
+    );
+    expect(result.text).toBe('eins.');
+    expect(result.segments[0].text).toBe('eins.');
+    expect(result.rawText).toBe('eins Punkt');
+  });
+});
@@ -0,0 +1,133 @@
+import type { Transcript } from '../shared/transcript';
+import type { ReplacementRule } from '../shared/settings';
+
+export type PostProcessingOptions = {
+  rules: ReplacementRule[];
+  voiceCommands: boolean;
+  language: string | null;
+};
+
+type VoiceCommand = {
+  phrases: string[];
+  output: string;
+};
+
+// Spoken phrases per language code. Longer phrases come first so that
+// "neuer Absatz" wins over a shorter command contained in it.
+const VOICE_COMMANDS: Record<string, VoiceCommand[]> = {
+  de: [
+    { phrases: ['neuer Absatz', 'neuen Absatz'], output: '\n\n' },
+    { phrases: ['neue Zeile', 'Zeilenumbruch'], output: '\n' },
+    { phrases: ['Fragezeichen'], output: '?' },
+    { phrases: ['Ausrufezeichen'], output: '!' },
+    { phrases: ['Doppelpunkt'], output: ':' },
+    { phrases: ['Semikolon', 'Strichpunkt'], output: ';' },
+    { phrases: ['Komma'], output: ',' },
+    { phrases: ['Punkt'], output: '.' },
+  ],
+  en: [
+    { phrases: ['new paragraph'], output: '\n\n' },
+    { phrases: ['new line', 'newline'], output: '\n' },
+    { phrases: ['question mark'], output: '?' },
+    { phrases: ['exclamation mark', 'exclamation point'], output: '!' },
+    { phrases: ['semicolon'], output: ';' },
+    { phrases: ['colon'], output: ':' },
+    { phrases: ['comma'], output: ',' },
+    { phrases: ['full stop', 'period'], output: '.' },
+  ],
+};
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Models often wrap a spoken command in their own punctuation
+// ("Hallo, Komma, Welt"), so adjacent punctuation is swallowed as well.
+const createCommandPattern = (phrase: string) =>
+  new RegExp(
+    `[,.;:]?\\s*(?<![\\p{L}\\p{N}])${escapeRegex(phrase).replace(
+      / /g,
+      '\\s+',
+    )}(?![\\p{L}\\p{N}])[,.;:]?`,
+    'giu',
+  );
+
+const tidyWhitespace = (text: string) =>
+  text
+    .replace(/[ \t]+([,.;:!?])/g, '$1')
+    .replace(/([,.;:!?])(?=[\p{L}\p{N}])/gu, '$1 ')
+    .replace(/[ \t]*\n[ \t]*/g, '\n')
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+
+const expandVoiceCommands = (text: string, language: string | null) => {
+  const commands = language ? VOICE_COMMANDS[language] : undefined;
+  if (!commands) {
+    return text;
+  }
+  let result = text;
+  for (const command of commands) {
+    for (const phrase of command.phrases) {
+      result = result.replace(createCommandPattern(phrase), command.output);
+    }
+  }
+  return tidyWhitespace(result);
+};
+
+/**
+ * Returns the index of every rule whose pattern does not compile, so the
+ * settings can point at it. Invalid rules are skipped when applying.
+ */
+export const findInvalidRules = (rules: ReplacementRule[]): number[] =>
+  rules.flatMap((rule, index) => {
+    if (!rule.isRegex || !rule.find) {
+      return [];
+    }
+    try {
+      new RegExp(rule.find, 'gu');
+      return [];
+    } catch {
+      return [index];
+    }
+  });
+
+const applyRules = (text: string, rules: ReplacementRule[]) =>
+  rules.reduce((result, rule) => {
+    if (!rule.find) {
+      return result;
+    }
+    if (!rule.isRegex) {
+      return result.split(rule.find).join(rule.replace);
+    }
+    try {
+      return result.replace(new RegExp(rule.find, 'gu'), rule.replace);
+    } catch {
+      return result;
+    }
+  }, text);
+
+export const postProcessText = (
+  text: string,
+  options: PostProcessingOptions,
+): string => {
+  const expanded = options.voiceCommands
+    ? expandVoiceCommands(text, options.language)
+    : text;
+  return applyRules(expanded, options.rules);
+};
+
+/**
+ * Runs voice commands and replacement rules over the transcript text and its
+ * segments. The unprocessed text is kept in `rawText` for previews.
+ */
+export const postProcessTranscript = (
+  transcript: Transcript,
+  options: PostProcessingOptions,
+): Transcript => ({
+  ...transcript,
+  rawText: transcript.rawText ?? transcript.text,
+  text: postProcessText(transcript.text, options),
+  segments: transcript.segments.map((segment) => ({
+    ...segment,
+    text: postProcessText(segment.text, options),
+  })),
+});
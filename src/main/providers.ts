@@ -0,0 +1,249 @@
+import { t } from './i18n';
+import { createCategorizedError, getStatusCategory } from './errors';
+import { AUTO_LANGUAGE, Language } from '../shared/languages';
+import type { ProviderId } from '../shared/settings';
+import type { JobStage } from '../shared/jobs';
+import type { KeyTestResult } from '../shared/credentials';
+
+export type TranscriptionRequest = {
+  audio: Buffer;
+  fileName: string;
+  mimeType?: string;
+  language: Language;
+  // Vocabulary hint; providers without prompt support ignore it.
+  prompt?: string;
+  signal?: AbortSignal;
+  onProgress?: (stage: JobStage) => void;
+};
+
+export type TranscriptionProvider = {
+  id: ProviderId;
+  model: string;
+  // Returns the raw model output; callers normalize it to text.
+  transcribe: (request: TranscriptionRequest) => Promise<unknown>;
+};
+
+export type ProviderConfig = {
+  provider: ProviderId;
+  replicateApiToken: string | null;
+  openaiBaseUrl: string;
+  openaiModel: string;
+  openaiApiKey: string | null;
+  // Providers with the diarization capability then return speaker segments.
+  diarize: boolean;
+  openaiDiarizationModel: string;
+};
+
+const REPLICATE_MODEL = 'openai/gpt-4o-transcribe';
+
+type ReplicatePrediction = {
+  status: 'starting' | 'processing' | 'succeeded' | 'failed' | 'canceled';
+};
+
+type ReplicateClient = {
+  files: {
+    create: (
+      file: Buffer | Blob,
+      metadata?: Record<string, unknown>,
+      options?: { signal?: AbortSignal },
+    ) => Promise<{ urls: { get: string } }>;
+  };
+  run: (
+    model: string,
+    args: { input: Record<string, unknown>; signal?: AbortSignal },
+    progress?: (prediction: ReplicatePrediction) => void,
+  ) => Promise<unknown>;
+};
+
+let replicateClient: ReplicateClient | null = null;
+let replicateToken: string | null = null;
+
+// Shared with the text rewrite step so both reuse one authenticated client.
+export const ensureReplicateClient = async (token: string | null) => {
+  if (!token) {
+    throw createCategorizedError(
+      'token-missing',
+      t('error.replicateTokenMissing'),
+    );
+  }
+
+  if (!replicateClient || replicateToken !== token) {
+    const mod = await import('replicate');
+    replicateClient = new mod.default({ auth: token }) as unknown as ReplicateClient;
+    replicateToken = token;
+  }
+  return replicateClient;
+};
+
+const createReplicateProvider = (
+  config: ProviderConfig,
+): TranscriptionProvider => ({
+  id: 'replicate',
+  model: REPLICATE_MODEL,
+  transcribe: async ({ audio, language, prompt, signal, onProgress }) => {
+    const replicate = await ensureReplicateClient(config.replicateApiToken);
+    onProgress?.('uploading');
+    const file = await replicate.files.create(audio, undefined, { signal });
+    onProgress?.('queued');
+    // Aborting the signal also cancels the prediction on Replicate.
+    return replicate.run(
+      REPLICATE_MODEL,
+      {
+        input: {
+          audio_file: file.urls.get,
+          ...(language === AUTO_LANGUAGE ? {} : { language }),
+          ...(prompt ? { prompt } : {}),
+        },
+        signal,
+      },
+      (prediction) => {
+        if (prediction.status === 'processing') {
+          onProgress?.('running');
+        }
+      },
+    );
+  },
+});
+
+// Accepts both "http://host:port" and "http://host:port/v1" as base URL.
+export const getOpenAiUrl = (baseUrl: string, endpoint: string): string => {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  return /\/v1$/.test(trimmed)
+    ? `${trimmed}/${endpoint}`
+    : `${trimmed}/v1/${endpoint}`;
+};
+
+type OpenAiResponseFormat = 'verbose_json' | 'json' | 'diarized_json';
+
+const getOpenAiModel = (config: ProviderConfig) =>
+  config.diarize ? config.openaiDiarizationModel : config.openaiModel;
+
+const createOpenAiCompatibleProvider = (
+  config: ProviderConfig,
+): TranscriptionProvider => ({
+  id: 'openai-compatible',
+  model: getOpenAiModel(config),
+  transcribe: async ({
+    audio,
+    fileName,
+    mimeType,
+    language,
+    prompt,
+    signal,
+    onProgress,
+  }) => {
+    if (!config.openaiBaseUrl.trim()) {
+      throw new Error(t('error.openaiUrlMissing'));
+    }
+
+    const send = (responseFormat: OpenAiResponseFormat) => {
+      const form = new FormData();
+      form.append(
+        'file',
+        new Blob([new Uint8Array(audio)], {
+          type: mimeType || 'application/octet-stream',
+        }),
+        fileName,
+      );
+      form.append('model', getOpenAiModel(config));
+      if (language !== AUTO_LANGUAGE) {
+        form.append('language', language);
+      }
+      if (prompt) {
+        form.append('prompt', prompt);
+      }
+      form.append('response_format', responseFormat);
+      if (responseFormat === 'verbose_json') {
+        form.append('timestamp_granularities[]', 'segment');
+      }
+      if (responseFormat === 'diarized_json') {
+        // Required by the diarizing models for recordings over 30 seconds.
+        form.append('chunking_strategy', 'auto');
+      }
+
+      return fetch(getOpenAiUrl(config.openaiBaseUrl, 'audio/transcriptions'), {
+        method: 'POST',
+        headers: config.openaiApiKey
+          ? { Authorization: `Bearer ${config.openaiApiKey}` }
+          : undefined,
+        body: form,
+        signal,
+      });
+    };
+
+    // Upload and transcription happen in one request, so the only stage
+    // visible from here is running.
+    onProgress?.('running');
+    // verbose_json carries segment timings, but not every model supports it
+    // (e.g. gpt-4o-transcribe); those reject it with 400.
+    let response = await send(
+      config.diarize ? 'diarized_json' : 'verbose_json',
+    );
+    if (response.status === 400 && !config.diarize) {
+      response = await send('json');
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw createCategorizedError(
+        getStatusCategory(response.status),
+        t('error.serverStatus', {
+          status: response.status,
+          detail: detail ? `: ${detail}` : '',
+        }),
+      );
+    }
+
+    const contentType = response.headers.get('content-type') ?? '';
+    return contentType.includes('application/json')
+      ? response.json()
+      : response.text();
+  },
+});
+
+/**
+ * Checks a key with a cheap authenticated request. Only 401/403 count as
+ * invalid; servers without the endpoint or network errors leave the key
+ * unverified so local servers without auth can still be used.
+ */
+export const testProviderKey = async (input: {
+  provider: ProviderId;
+  key: string;
+  openaiBaseUrl: string;
+}): Promise<KeyTestResult> => {
+  const url =
+    input.provider === 'replicate'
+      ? 'https://api.replicate.com/v1/account'
+      : input.openaiBaseUrl.trim()
+        ? getOpenAiUrl(input.openaiBaseUrl, 'models')
+        : null;
+  if (!url) {
+    return 'unverified';
+  }
+
+  try {
+    const response = await fetch(url, {
+      headers: { Authorization: `Bearer ${input.key}` },
+      signal: AbortSignal.timeout(10_000),
+    });
+    if (response.status === 401 || response.status === 403) {
+      return 'invalid';
+    }
+    return response.ok ? 'valid' : 'unverified';
+  } catch (error) {
+    console.error('Key test failed:', error);
+    return 'unverified';
+  }
+};
+
+export const getTranscriptionProvider = (
+  config: ProviderConfig,
+): TranscriptionProvider => {
+  switch (config.provider) {
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider(config);
+    case 'replicate':
+    default:
+      return createReplicateProvider(config);
+  }
+};
@@ -0,0 +1,132 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Transcript } from '../shared/transcript';
+import { createCategorizedError } from './errors';
+import {
+  discardQueueItem,
+  enqueueFailedRecording,
+  initRetryQueue,
+  listRetryQueue,
+  retryQueueItem,
+} from './retry-queue';
+
+const userData = vi.hoisted(() => ({ path: '' }));
+
+vi.mock('electron', () => ({
+  app: { getPath: () => userData.path },
+  net: { isOnline: () => true },
+}));
+
+const transcript: Transcript = {
+  text: 'Hallo',
+  segments: [],
+  segmentsEstimated: false,
+  language: 'de',
+  model: 'test',
+  durationMs: 1000,
+};
+
+const setup = (transcribe: () => Promise<Transcript>) => {
+  const handlers = {
+    transcribe: vi.fn(transcribe),
+    onCompleted: vi.fn(),
+    onChange: vi.fn(),
+  };
+  initRetryQueue(handlers);
+  return handlers;
+};
+
+const enqueue = () =>
+  enqueueFailedRecording({
+    audio: Buffer.from('audio'),
+    extension: '.webm',
+    language: 'de',
+    durationMs: 1000,
+    error: 'fetch failed',
+  });
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+  userData.path = fs.mkdtempSync(path.join(os.tmpdir(), 'micscribe-'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  fs.rmSync(userData.path, { recursive: true, force: true });
+});
+
+describe('retry queue', () => {
+  it('doubles the delay after each network error', async () => {
+    setup(() => Promise.reject(new Error('fetch failed')));
+    const item = await enqueue();
+
+    await retryQueueItem(item.id);
+
+    const [retried] = await listRetryQueue();
+    expect(retried.attempts).toBe(2);
+    const delay = new Date(retried.nextAttemptAt ?? 0).getTime() - Date.now();
+    expect(delay).toBeGreaterThan(55 * 1000);
+    expect(delay).toBeLessThanOrEqual(60 * 1000);
+  });
+
+  it('stops retrying automatically on errors retrying cannot fix', async () => {
+    setup(() =>
+      Promise.reject(createCategorizedError('token-invalid', 'Rejected')),
+    );
+    const item = await enqueue();
+
+    await retryQueueItem(item.id);
+
+    const [retried] = await listRetryQueue();
+    expect(retried.nextAttemptAt).toBeNull();
+    expect(retried.lastError).toBe('Rejected');
+  });
+
+  it('stops retrying automatically after ten attempts', async () => {
+    setup(() => Promise.reject(new Error('fetch failed')));
+    const item = await enqueue();
+
+    for (let attempt = 2; attempt <= 10; attempt += 1) {
+      await retryQueueItem(item.id);
+    }
+
+    const [retried] = await listRetryQueue();
+    expect(retried.attempts).toBe(10);
+    expect(retried.nextAttemptAt).toBeNull();
+  });
+
+  it('transcribes an item once when retried twice at a time', async () => {
+    const handlers = setup(() => Promise.resolve(transcript));
+    const item = await enqueue();
+
+    await Promise.all([retryQueueItem(item.id), retryQueueItem(item.id)]);
+
+    expect(handlers.transcribe).toHaveBeenCalledTimes(1);
+    expect(handlers.onCompleted).toHaveBeenCalledTimes(1);
+    expect(await listRetryQueue()).toEqual([]);
+  });
+
+  it('keeps an item discarded during a failing retry discarded', async () => {
+    let fail: (error: Error) => void = () => undefined;
+    const handlers = setup(
+      () =>
+        new Promise<Transcript>((_resolve, reject) => {
+          fail = reject;
+        }),
+    );
+    const item = await enqueue();
+
+    const retry = retryQueueItem(item.id);
+    await vi.waitFor(() => expect(handlers.transcribe).toHaveBeenCalled());
+    await discardQueueItem(item.id);
+    fail(new Error('fetch failed'));
+    await retry;
+
+    expect(await listRetryQueue()).toEqual([]);
+    expect(fs.readdirSync(path.join(userData.path, 'retry-queue'))).toEqual(
+      [],
+    );
+  });
+});
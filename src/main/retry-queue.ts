@@ -0,0 +1,236 @@
+import { app, net } from 'electron';
+import path from 'node:path';
+import fs from 'node:fs';
+import { randomUUID } from 'node:crypto';
+import type { Transcript } from '../shared/transcript';
+import type { Language } from '../shared/languages';
+import type { ErrorCategory } from '../shared/errors';
+import type { RetryQueueItem } from '../shared/retry-queue';
+import { classifyError } from './errors';
+
+type RetryQueueHandlers = {
+  transcribe: (item: RetryQueueItem, audioPath: string) => Promise<Transcript>;
+  onCompleted: (item: RetryQueueItem, transcript: Transcript) => void;
+  onChange: (items: RetryQueueItem[]) => void;
+};
+
+const BASE_DELAY_MS = 30 * 1000;
+const MAX_DELAY_MS = 30 * 60 * 1000;
+const MAX_ATTEMPTS = 10;
+
+// Retrying these cannot help until the user changes something.
+const PERMANENT_ERRORS: ErrorCategory[] = [
+  'token-missing',
+  'token-invalid',
+  'payload-too-large',
+  'unsupported-format',
+];
+
+let handlers: RetryQueueHandlers | null = null;
+let timer: NodeJS.Timeout | null = null;
+let isProcessing = false;
+// Ids being transcribed right now, by the timer or by a manual retry.
+const inProgress = new Set<string>();
+// Discarded while being transcribed; removed again once the attempt ends.
+const discarded = new Set<string>();
+
+const getQueueDir = () => path.join(app.getPath('userData'), 'retry-queue');
+const getMetaPath = (id: string) => path.join(getQueueDir(), `${id}.json`);
+const getAudioPath = (item: RetryQueueItem) =>
+  path.join(getQueueDir(), `${item.id}${item.extension}`);
+
+const getBackoffDelay = (attempts: number) =>
+  Math.min(BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_DELAY_MS);
+
+const writeItem = (item: RetryQueueItem) =>
+  fs.promises.writeFile(getMetaPath(item.id), JSON.stringify(item, null, 2));
+
+const readItem = async (id: string): Promise<RetryQueueItem | null> => {
+  try {
+    const raw = await fs.promises.readFile(getMetaPath(id), 'utf8');
+    return JSON.parse(raw) as RetryQueueItem;
+  } catch {
+    return null;
+  }
+};
+
+export const listRetryQueue = async (): Promise<RetryQueueItem[]> => {
+  const files = await fs.promises
+    .readdir(getQueueDir())
+    .catch((): string[] => []);
+  const items = await Promise.all(
+    files
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => readItem(path.basename(file, '.json'))),
+  );
+  return items
+    .filter((item): item is RetryQueueItem => item !== null)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+const notifyChange = async () => {
+  handlers?.onChange(await listRetryQueue());
+};
+
+const removeItem = async (item: RetryQueueItem) => {
+  await Promise.all([
+    fs.promises.unlink(getMetaPath(item.id)).catch((): void => undefined),
+    fs.promises.unlink(getAudioPath(item)).catch((): void => undefined),
+  ]);
+};
+
+const scheduleNext = async () => {
+  if (timer) {
+    clearTimeout(timer);
+    timer = null;
+  }
+  const items = await listRetryQueue();
+  if (items.length === 0) {
+    return;
+  }
+  const times = items.flatMap((item) =>
+    item.nextAttemptAt ? [new Date(item.nextAttemptAt).getTime()] : [],
+  );
+  if (times.length === 0) {
+    return;
+  }
+  const next = Math.min(...times);
+  timer = setTimeout(
+    () => {
+      timer = null;
+      void processDueItems();
+    },
+    Math.max(next - Date.now(), 0),
+  );
+};
+
+const transcribeItem = async (
+  item: RetryQueueItem,
+  queueHandlers: RetryQueueHandlers,
+) => {
+  try {
+    const transcript = await queueHandlers.transcribe(
+      item,
+      getAudioPath(item),
+    );
+    await removeItem(item);
+    queueHandlers.onCompleted(item, transcript);
+  } catch (error) {
+    // Writing a discarded item back would revive it without its audio.
+    if (discarded.has(item.id) || !(await readItem(item.id))) {
+      return;
+    }
+    const attempts = item.attempts + 1;
+    const stopped =
+      attempts >= MAX_ATTEMPTS ||
+      PERMANENT_ERRORS.includes(classifyError(error));
+    await writeItem({
+      ...item,
+      attempts,
+      lastError: error instanceof Error ? error.message : String(error),
+      nextAttemptAt: stopped
+        ? null
+        : new Date(Date.now() + getBackoffDelay(attempts)).toISOString(),
+    });
+  }
+};
+
+// Skips items already being transcribed, so none is transcribed twice.
+const attempt = async (id: string) => {
+  if (!handlers || inProgress.has(id)) {
+    return;
+  }
+  inProgress.add(id);
+  // Read again: a retry may have finished or rescheduled it meanwhile.
+  const item = await readItem(id);
+  try {
+    if (item) {
+      await transcribeItem(item, handlers);
+    }
+  } finally {
+    inProgress.delete(id);
+    if (discarded.delete(id) && item) {
+      await removeItem(item);
+    }
+  }
+};
+
+const processDueItems = async (force = false) => {
+  if (isProcessing) {
+    return;
+  }
+  isProcessing = true;
+  try {
+    // Offline attempts would only push the backoff further out.
+    if (net.isOnline()) {
+      const now = Date.now();
+      // Stopped items only run on a manual retry.
+      const due = (await listRetryQueue()).filter(
+        (item) =>
+          item.nextAttemptAt !== null &&
+          (force || new Date(item.nextAttemptAt).getTime() <= now),
+      );
+      for (const item of due) {
+        await attempt(item.id);
+      }
+    }
+  } finally {
+    isProcessing = false;
+    await notifyChange();
+    await scheduleNext();
+  }
+};
+
+export const initRetryQueue = (queueHandlers: RetryQueueHandlers) => {
+  handlers = queueHandlers;
+  void scheduleNext();
+};
+
+export const enqueueFailedRecording = async (input: {
+  audio: Buffer;
+  extension: string;
+  mimeType?: string;
+  language: Language;
+  durationMs: number | null;
+  error: string;
+}): Promise<RetryQueueItem> => {
+  const item: RetryQueueItem = {
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    language: input.language,
+    durationMs: input.durationMs,
+    mimeType: input.mimeType,
+    extension: input.extension,
+    attempts: 1,
+    lastError: input.error,
+    nextAttemptAt: new Date(Date.now() + getBackoffDelay(1)).toISOString(),
+  };
+
+  await fs.promises.mkdir(getQueueDir(), { recursive: true });
+  await fs.promises.writeFile(getAudioPath(item), input.audio);
+  await writeItem(item);
+  await notifyChange();
+  await scheduleNext();
+  return item;
+};
+
+export const retryQueueItem = async (id: string) => {
+  await attempt(id);
+  await notifyChange();
+  await scheduleNext();
+};
+
+export const discardQueueItem = async (id: string) => {
+  const item = (await listRetryQueue()).find((entry) => entry.id === id);
+  if (item) {
+    if (inProgress.has(id)) {
+      discarded.add(id);
+    }
+    await removeItem(item);
+  }
+  await notifyChange();
+  await scheduleNext();
+};
+
+// Called when the renderer reports that the network is back.
+export const retryAllNow = () => processDueItems(true);
@@ -0,0 +1,116 @@
+import { t } from './i18n';
+import { createCategorizedError, getStatusCategory } from './errors';
+import { ProviderConfig, ensureReplicateClient, getOpenAiUrl } from './providers';
+import {
+  BuiltinRewriteMode,
+  CustomRewriteMode,
+  isBuiltinRewriteMode,
+} from '../shared/rewrite';
+
+const REPLICATE_TEXT_MODEL = 'openai/gpt-4o-mini';
+
+const SYSTEM_PROMPT =
+  'You edit dictated transcripts. Reply with the edited text only, without ' +
+  'explanations or quotes, in the language of the transcript.';
+
+const BUILTIN_PROMPTS: Record<BuiltinRewriteMode, string> = {
+  clean:
+    'Remove filler words, stutters and false starts. Keep the wording otherwise unchanged.',
+  grammar:
+    'Fix grammar, spelling and punctuation. Do not change the meaning or the tone.',
+  summary: 'Summarize the transcript in a few sentences.',
+  bullets: 'Turn the transcript into a concise bullet point list.',
+  email:
+    'Rewrite the transcript as a polite, well-structured email including greeting and sign-off.',
+};
+
+export type RewriteConfig = ProviderConfig & {
+  // Chat model of the OpenAI-compatible endpoint.
+  rewriteModel: string;
+};
+
+const buildPrompt = (
+  mode: string,
+  text: string,
+  customModes: CustomRewriteMode[],
+): string => {
+  if (isBuiltinRewriteMode(mode)) {
+    return `${BUILTIN_PROMPTS[mode]}\n\nTranscript:\n${text}`;
+  }
+  const custom = customModes.find((entry) => entry.id === mode);
+  if (!custom || !custom.prompt.trim()) {
+    throw new Error(t('error.rewriteUnknownMode'));
+  }
+  return custom.prompt.includes('{text}')
+    ? custom.prompt.split('{text}').join(text)
+    : `${custom.prompt}\n\n${text}`;
+};
+
+const rewriteWithReplicate = async (config: RewriteConfig, prompt: string) => {
+  const replicate = await ensureReplicateClient(config.replicateApiToken);
+  const output = await replicate.run(REPLICATE_TEXT_MODEL, {
+    input: { prompt, system_prompt: SYSTEM_PROMPT },
+  });
+  // Language models on Replicate stream tokens, which arrive as an array.
+  return Array.isArray(output) ? output.join('') : String(output ?? '');
+};
+
+const rewriteWithOpenAi = async (config: RewriteConfig, prompt: string) => {
+  if (!config.openaiBaseUrl.trim()) {
+    throw new Error(t('error.openaiUrlMissing'));
+  }
+  const response = await fetch(
+    getOpenAiUrl(config.openaiBaseUrl, 'chat/completions'),
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.openaiApiKey
+          ? { Authorization: `Bearer ${config.openaiApiKey}` }
+          : {}),
+      },
+      body: JSON.stringify({
+        model: config.rewriteModel,
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: prompt },
+        ],
+      }),
+    },
+  );
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw createCategorizedError(
+      getStatusCategory(response.status),
+      t('error.textServerStatus', {
+        status: response.status,
+        detail: detail ? `: ${detail}` : '',
+      }),
+    );
+  }
+  const data = (await response.json()) as {
+    choices?: { message?: { content?: string } }[];
+  };
+  return data.choices?.[0]?.message?.content ?? '';
+};
+
+/**
+ * Sends a transcript through a text model using a built-in or user-defined
+ * mode. Uses the same backend as the active transcription provider.
+ */
+export const rewriteText = async (input: {
+  text: string;
+  mode: string;
+  customModes: CustomRewriteMode[];
+  config: RewriteConfig;
+}): Promise<string> => {
+  if (!input.text.trim()) {
+    throw new Error(t('error.rewriteEmpty'));
+  }
+  const prompt = buildPrompt(input.mode, input.text, input.customModes);
+  const output =
+    input.config.provider === 'openai-compatible'
+      ? await rewriteWithOpenAi(input.config, prompt)
+      : await rewriteWithReplicate(input.config, prompt);
+  return output.trim();
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../shared/settings';
+import {
+  createSettingsFile,
+  migrateSettings,
+  readSettingsFile,
+  validateSettings,
+} from './settings';
+
+describe('validateSettings', () => {
+  it('takes over valid fields and names the rejected ones', () => {
+    const { next, rejected } = validateSettings(
+      { theme: 'dark', micChannelCount: 3, unknownField: true },
+      DEFAULT_SETTINGS,
+    );
+    expect(next.theme).toBe('dark');
+    expect(next.micChannelCount).toBe(DEFAULT_SETTINGS.micChannelCount);
+    expect(rejected.sort()).toEqual(['micChannelCount', 'unknownField']);
+  });
+
+  it('ignores updates that are not an object', () => {
+    expect(validateSettings(null, DEFAULT_SETTINGS)).toEqual({
+      next: DEFAULT_SETTINGS,
+      rejected: [],
+    });
+  });
+});
+
+describe('migrateSettings', () => {
+  it('drops API keys from files written before versioning', () => {
+    expect(
+      migrateSettings({ replicateApiToken: 'secret', theme: 'dark' }, 0),
+    ).toEqual({ theme: 'dark' });
+  });
+});
+
+describe('readSettingsFile', () => {
+  it('reads back an exported file', () => {
+    const file = createSettingsFile({ ...DEFAULT_SETTINGS, theme: 'dark' });
+    expect(readSettingsFile(JSON.stringify(file)).theme).toBe('dark');
+  });
+
+  it('rejects other files', () => {
+    expect(() => readSettingsFile('{"format":"other"}')).toThrow();
+    expect(() => readSettingsFile('not json')).toThrow();
+  });
+});
@@ -0,0 +1,315 @@
+import path from 'node:path';
+import { t } from './i18n';
+import { isUiLanguage } from '../shared/i18n';
+import {
+  MAX_RECENT_LANGUAGES,
+  isLanguage,
+  isLanguageCode,
+} from '../shared/languages';
+import { CustomRewriteMode, isBuiltinRewriteMode } from '../shared/rewrite';
+import {
+  HOTKEY_MODES,
+  HotkeyMode,
+  LOCAL_SETTINGS,
+  MIC_CHANNEL_COUNTS,
+  MIC_SAMPLE_RATES,
+  OverlayPosition,
+  PROVIDER_IDS,
+  ProviderId,
+  ReplacementRule,
+  SETTINGS_KEYS,
+  SETTINGS_VERSION,
+  Settings,
+  SettingsKey,
+  THEMES,
+  Theme,
+} from '../shared/settings';
+
+type SettingsData = Record<string, unknown>;
+
+// Returns the value to store, or undefined if the value is rejected. `next`
+// already contains the fields validated before this one.
+type FieldValidator<Key extends SettingsKey> = (
+  value: unknown,
+  next: Settings,
+) => Settings[Key] | undefined;
+
+const MAX_VOCABULARY_TERMS = 200;
+
+const isNumberInRange = (
+  value: unknown,
+  min: number,
+  max: number,
+): value is number =>
+  typeof value === 'number' &&
+  Number.isFinite(value) &&
+  value >= min &&
+  value <= max;
+
+const booleanField = (value: unknown) =>
+  typeof value === 'boolean' ? value : undefined;
+
+const roundedField = (min: number, max: number) => (value: unknown) =>
+  isNumberInRange(value, min, max) ? Math.round(value) : undefined;
+
+// null switches the limit off.
+const optionalNumberField = (min: number, max: number) => (value: unknown) =>
+  value === null ? null : isNumberInRange(value, min, max) ? value : undefined;
+
+// null keeps the default.
+const optionalChoiceField = (choices: number[]) => (value: unknown) =>
+  value === null
+    ? null
+    : choices.includes(value as number)
+      ? (value as number)
+      : undefined;
+
+const nonEmptyStringField = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+const isReplacementRule = (value: unknown): value is ReplacementRule =>
+  Boolean(value) &&
+  typeof value === 'object' &&
+  typeof (value as ReplacementRule).find === 'string' &&
+  typeof (value as ReplacementRule).replace === 'string' &&
+  typeof (value as ReplacementRule).isRegex === 'boolean';
+
+const isCustomRewriteMode = (value: unknown): value is CustomRewriteMode =>
+  Boolean(value) &&
+  typeof value === 'object' &&
+  typeof (value as CustomRewriteMode).id === 'string' &&
+  typeof (value as CustomRewriteMode).name === 'string' &&
+  typeof (value as CustomRewriteMode).prompt === 'string';
+
+const isOverlayPosition = (value: unknown): value is OverlayPosition =>
+  Boolean(value) &&
+  typeof value === 'object' &&
+  Number.isFinite((value as OverlayPosition).x) &&
+  Number.isFinite((value as OverlayPosition).y);
+
+// Validated in this order, so customRewriteModes comes before rewriteMode.
+const VALIDATORS: { [Key in SettingsKey]: FieldValidator<Key> } = {
+  language: (value) => (isLanguage(value) ? value : undefined),
+  recentLanguages: (value) =>
+    Array.isArray(value) && value.every(isLanguageCode)
+      ? value.slice(0, MAX_RECENT_LANGUAGES)
+      : undefined,
+  uiLanguage: (value) => (isUiLanguage(value) ? value : undefined),
+  preferredMicDeviceId: (value) =>
+    value === null ? null : typeof value === 'string' ? value : undefined,
+  micEchoCancellation: booleanField,
+  micNoiseSuppression: booleanField,
+  micAutoGainControl: booleanField,
+  micChannelCount: optionalChoiceField(MIC_CHANNEL_COUNTS),
+  micSampleRate: optionalChoiceField(MIC_SAMPLE_RATES),
+  theme: (value) =>
+    THEMES.includes(value as Theme) ? (value as Theme) : undefined,
+  transcriptionProvider: (value) =>
+    PROVIDER_IDS.includes(value as ProviderId)
+      ? (value as ProviderId)
+      : undefined,
+  openaiBaseUrl: (value) =>
+    typeof value === 'string' ? value.trim() : undefined,
+  openaiModel: nonEmptyStringField,
+  diarizationEnabled: booleanField,
+  openaiDiarizationModel: nonEmptyStringField,
+  transcriptionTimeoutSeconds: optionalNumberField(30, 3600),
+  liveTranscription: booleanField,
+  historyKeepAudio: booleanField,
+  audioDirectory: (value) =>
+    value === null
+      ? null
+      : typeof value === 'string' && path.isAbsolute(value)
+        ? value
+        : undefined,
+  audioMaxAgeDays: optionalNumberField(1, 3650),
+  audioMaxTotalMb: optionalNumberField(10, 1_000_000),
+  closeToTray: booleanField,
+  openAtLogin: booleanField,
+  overlayEnabled: booleanField,
+  overlayPosition: (value) =>
+    value === null
+      ? null
+      : isOverlayPosition(value)
+        ? { x: Math.round(value.x), y: Math.round(value.y) }
+        : undefined,
+  hotkey: (value) =>
+    value === null
+      ? null
+      : typeof value === 'string'
+        ? value.trim() || null
+        : undefined,
+  hotkeyMode: (value) =>
+    HOTKEY_MODES.includes(value as HotkeyMode)
+      ? (value as HotkeyMode)
+      : undefined,
+  hotkeyAutoCopy: booleanField,
+  hotkeyAutoPaste: booleanField,
+  chunkingEnabled: booleanField,
+  chunkThresholdSeconds: roundedField(30, 3600),
+  chunkLengthSeconds: roundedField(15, 600),
+  silenceAutoStopSeconds: optionalNumberField(2, 300),
+  maxRecordingSeconds: optionalNumberField(10, 4 * 3600),
+  vocabulary: (value) =>
+    Array.isArray(value)
+      ? [
+          ...new Set(
+            value
+              .filter((term): term is string => typeof term === 'string')
+              .map((term) => term.trim())
+              .filter(Boolean),
+          ),
+        ].slice(0, MAX_VOCABULARY_TERMS)
+      : undefined,
+  // Rules with an empty pattern are kept so the settings can show them while
+  // they are being edited; the pipeline skips them.
+  replacementRules: (value) =>
+    Array.isArray(value) && value.every(isReplacementRule)
+      ? value.map((rule) => ({
+          find: rule.find,
+          replace: rule.replace,
+          isRegex: rule.isRegex,
+        }))
+      : undefined,
+  voiceCommandsEnabled: booleanField,
+  customRewriteModes: (value) =>
+    Array.isArray(value) && value.every(isCustomRewriteMode)
+      ? value.map((mode) => ({
+          id: mode.id,
+          name: mode.name,
+          prompt: mode.prompt,
+        }))
+      : undefined,
+  rewriteMode: (value, next) =>
+    isBuiltinRewriteMode(value) ||
+    next.customRewriteModes.some((mode) => mode.id === value)
+      ? (value as string)
+      : undefined,
+  rewriteModel: nonEmptyStringField,
+  apiServerEnabled: booleanField,
+  apiServerPort: roundedField(1024, 65535),
+};
+
+const applyField = <Key extends SettingsKey>(
+  next: Settings,
+  key: Key,
+  value: unknown,
+) => {
+  const valid = VALIDATORS[key](value, next);
+  if (valid === undefined) {
+    return false;
+  }
+  next[key] = valid;
+  return true;
+};
+
+const isSettingsKey = (key: string): key is SettingsKey =>
+  SETTINGS_KEYS.includes(key as SettingsKey);
+
+/**
+ * Applies `updates` on top of `current`. Valid fields are taken over, the
+ * names of unknown or invalid fields are returned in `rejected`.
+ */
+export const validateSettings = (
+  updates: unknown,
+  current: Settings,
+): { next: Settings; rejected: string[] } => {
+  const next: Settings = { ...current };
+  if (!updates || typeof updates !== 'object') {
+    return { next, rejected: [] };
+  }
+  const data = updates as SettingsData;
+  const rejected = Object.keys(data).filter((key) => !isSettingsKey(key));
+
+  for (const key of Object.keys(VALIDATORS) as SettingsKey[]) {
+    if (key in data && !applyField(next, key, data[key])) {
+      rejected.push(key);
+    }
+  }
+
+  if (next.language !== current.language && isLanguageCode(next.language)) {
+    next.recentLanguages = [
+      next.language,
+      ...next.recentLanguages.filter((code) => code !== next.language),
+    ].slice(0, MAX_RECENT_LANGUAGES);
+  }
+  if (
+    !isBuiltinRewriteMode(next.rewriteMode) &&
+    !next.customRewriteModes.some((mode) => mode.id === next.rewriteMode)
+  ) {
+    // The remembered custom mode was deleted.
+    next.rewriteMode = 'clean';
+  }
+  return { next, rejected };
+};
+
+const withoutKeys = (data: SettingsData, keys: string[]): SettingsData =>
+  Object.fromEntries(
+    Object.entries(data).filter(([key]) => !keys.includes(key)),
+  );
+
+type Migration = (data: SettingsData) => SettingsData;
+
+// MIGRATIONS[n] upgrades version n to n + 1; version 0 is every settings file
+// written before the layout was versioned.
+const MIGRATIONS: Migration[] = [
+  // The API keys moved to the credential store.
+  (data) => withoutKeys(data, ['replicateApiToken', 'openaiApiKey']),
+];
+
+export const migrateSettings = (
+  data: SettingsData,
+  fromVersion: number,
+): SettingsData =>
+  MIGRATIONS.slice(fromVersion).reduce(
+    (migrated, migrate) => migrate(migrated),
+    data,
+  );
+
+const SETTINGS_FILE_FORMAT = 'micscribe-settings';
+
+export type SettingsFile = {
+  format: typeof SETTINGS_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  settings: Partial<Settings>;
+};
+
+// API keys live in the credential store and are never part of the export.
+export const createSettingsFile = (settings: Settings): SettingsFile => ({
+  format: SETTINGS_FILE_FORMAT,
+  version: SETTINGS_VERSION,
+  exportedAt: new Date().toISOString(),
+  settings: withoutKeys(settings, LOCAL_SETTINGS) as Partial<Settings>,
+});
+
+/**
+ * Parses an exported settings file and migrates it to the current version.
+ * The result still has to go through validateSettings.
+ */
+export const readSettingsFile = (content: string): SettingsData => {
+  let file: Partial<SettingsFile>;
+  try {
+    file = JSON.parse(content);
+  } catch {
+    throw new Error(t('error.settingsFileInvalid'));
+  }
+  if (
+    !file ||
+    file.format !== SETTINGS_FILE_FORMAT ||
+    typeof file.version !== 'number' ||
+    !Number.isInteger(file.version) ||
+    file.version < 0 ||
+    !file.settings ||
+    typeof file.settings !== 'object'
+  ) {
+    throw new Error(t('error.settingsFileInvalid'));
+  }
+  if (file.version > SETTINGS_VERSION) {
+    throw new Error(t('error.settingsFileNewer'));
+  }
+  return withoutKeys(
+    migrateSettings(file.settings, file.version),
+    LOCAL_SETTINGS,
+  );
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { t } from './i18n';
+import { normalizeTranscript } from './transcripts';
+
+const context = { model: 'test', durationMs: 4000 };
+
+describe('normalizeTranscript', () => {
+  it('estimates timings for plain text output', () => {
+    const transcript = normalizeTranscript(['Hallo ', 'Welt.'], context);
+    expect(transcript.text).toBe('Hallo Welt.');
+    expect(transcript.segmentsEstimated).toBe(true);
+    expect(transcript.segments).toEqual([
+      { start: 0, end: 4, text: 'Hallo Welt.' },
+    ]);
+  });
+
+  it('takes timed segments, language and duration from verbose output', () => {
+    const transcript = normalizeTranscript(
+      {
+        text: ' Eins. Zwei.',
+        language: 'german',
+        duration: 2.5,
+        segments: [
+          { start: 0, end: 1, text: ' Eins.' },
+          { start: 1, end: 2.5, text: ' Zwei.' },
+          { start: 2.5, end: 2.5, text: '  ' },
+          { text: 'no timing' },
+        ],
+      },
+      context,
+    );
+    expect(transcript).toEqual({
+      text: 'Eins. Zwei.',
+      segments: [
+        { start: 0, end: 1, text: 'Eins.' },
+        { start: 1, end: 2.5, text: 'Zwei.' },
+      ],
+      segmentsEstimated: false,
+      language: 'de',
+      model: 'test',
+      durationMs: 2500,
+    });
+  });
+
+  it('numbers speakers and labels their turns in diarized output', () => {
+    const transcript = normalizeTranscript(
+      {
+        segments: [
+          { start: 0, end: 1, text: 'Hallo.', speaker: 'SPEAKER_01' },
+          { start: 1, end: 2, text: 'Hi.', speaker: 'SPEAKER_00' },
+          { start: 2, end: 3, text: 'Tschüss.', speaker: 'SPEAKER_01' },
+        ],
+      },
+      context,
+    );
+    const first = t('transcript.speaker', { number: 1 });
+    const second = t('transcript.speaker', { number: 2 });
+    expect(transcript.speakers).toEqual({
+      SPEAKER_01: first,
+      SPEAKER_00: second,
+    });
+    expect(transcript.text).toBe(
+      `${first}: Hallo.\n\n${second}: Hi.\n\n${first}: Tschüss.`,
+    );
+  });
+
+  it('falls back to the text when there are no segments', () => {
+    const transcript = normalizeTranscript({ text: 'Nur Text.' }, context);
+    expect(transcript.text).toBe('Nur Text.');
+    expect(transcript.segmentsEstimated).toBe(true);
+    expect(transcript.durationMs).toBe(4000);
+  });
+});
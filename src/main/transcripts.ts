@@ -0,0 +1,124 @@
+import { t } from './i18n';
+import {
+  Transcript,
+  TranscriptSegment,
+  createTranscript,
+  formatSpeakerText,
+} from '../shared/transcript';
+import { toLanguageCode } from '../shared/languages';
+
+const joinText = (value: unknown): string | null => {
+  if (Array.isArray(value)) {
+    return value.join('');
+  }
+  if (typeof value === 'string') {
+    return value;
+  }
+  return null;
+};
+
+type RawSegment = {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: unknown;
+};
+
+// verbose_json responses (whisper, whisper.cpp) carry timed segments,
+// diarized_json responses additionally a speaker per segment.
+const readSegments = (value: unknown): TranscriptSegment[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .filter(
+      (segment): segment is RawSegment =>
+        segment &&
+        typeof segment === 'object' &&
+        typeof segment.start === 'number' &&
+        typeof segment.end === 'number' &&
+        typeof segment.text === 'string',
+    )
+    .map((segment) => ({
+      start: segment.start,
+      end: segment.end,
+      text: segment.text.trim(),
+      ...(typeof segment.speaker === 'string' && segment.speaker
+        ? { speaker: segment.speaker }
+        : {}),
+    }))
+    .filter((segment) => segment.text);
+};
+
+// Numbers the speakers in order of their first turn: "Sprecher 1", ...
+const nameSpeakers = (segments: TranscriptSegment[]) => {
+  const speakers: Record<string, string> = {};
+  for (const { speaker } of segments) {
+    if (speaker && !(speaker in speakers)) {
+      speakers[speaker] = t('transcript.speaker', {
+        number: Object.keys(speakers).length + 1,
+      });
+    }
+  }
+  return speakers;
+};
+
+/**
+ * Converts whatever a provider returned into a Transcript. Timings come from
+ * the provider when present and are estimated from the text otherwise.
+ */
+export const normalizeTranscript = (
+  output: unknown,
+  context: { model: string; durationMs: number | null },
+): Transcript => {
+  const direct = joinText(output);
+  if (direct !== null) {
+    return createTranscript(direct, context);
+  }
+
+  if (output && typeof output === 'object') {
+    const record = output as Record<string, unknown>;
+    const text = joinText(record.text) ?? '';
+    const language =
+      typeof record.language === 'string' && record.language.trim()
+        ? toLanguageCode(record.language)
+        : null;
+    const durationMs =
+      typeof record.duration === 'number'
+        ? Math.round(record.duration * 1000)
+        : context.durationMs;
+    const segments = readSegments(record.segments);
+
+    const speakers = nameSpeakers(segments);
+    if (Object.keys(speakers).length > 0) {
+      return {
+        text: formatSpeakerText(segments, speakers),
+        segments,
+        segmentsEstimated: false,
+        speakers,
+        language,
+        model: context.model,
+        durationMs,
+      };
+    }
+    if (segments.length > 0) {
+      return {
+        text: text.trim() || segments.map((segment) => segment.text).join(' '),
+        segments,
+        segmentsEstimated: false,
+        language,
+        model: context.model,
+        durationMs,
+      };
+    }
+    if (text) {
+      return createTranscript(text, {
+        model: context.model,
+        durationMs,
+        language,
+      });
+    }
+  }
+
+  return createTranscript(output ? JSON.stringify(output) : '', context);
+};
@@ -0,0 +1,127 @@
+import { Menu, MenuItemConstructorOptions, Tray } from 'electron';
+import { t } from './i18n';
+import { AUTO_LANGUAGE, Language, getLanguageName } from '../shared/languages';
+import { RecordingState, isRecordingOpen } from '../shared/recording';
+
+export type TrayState = {
+  recordingState: RecordingState;
+  language: Language;
+  // Languages offered in the menu, most recent first.
+  languages: Language[];
+  hasLastTranscript: boolean;
+  openAtLogin: boolean;
+  overlayEnabled: boolean;
+};
+
+export type TrayActions = {
+  toggleRecording: () => void;
+  copyLastTranscript: () => void;
+  setLanguage: (language: Language) => void;
+  openHistory: () => void;
+  showWindow: () => void;
+  setOpenAtLogin: (enabled: boolean) => void;
+  setOverlayEnabled: (enabled: boolean) => void;
+  quit: () => void;
+};
+
+const STATE_LABELS = {
+  idle: 'tray.stateIdle',
+  recording: 'tray.stateRecording',
+  paused: 'tray.statePaused',
+  transcribing: 'tray.stateTranscribing',
+} as const;
+
+const TRAY_TITLES: Partial<Record<RecordingState, string>> = {
+  recording: '●',
+  paused: '❚❚',
+};
+
+let tray: Tray | null = null;
+let getState: (() => TrayState) | null = null;
+let actions: TrayActions | null = null;
+
+const buildMenu = (state: TrayState, handlers: TrayActions) => {
+  const languageItems: MenuItemConstructorOptions[] = state.languages.map(
+    (language) => ({
+      label:
+        language === AUTO_LANGUAGE
+          ? t('settings.languageAuto')
+          : getLanguageName(language),
+      type: 'radio',
+      checked: language === state.language,
+      click: () => handlers.setLanguage(language),
+    }),
+  );
+
+  return Menu.buildFromTemplate([
+    { label: t(STATE_LABELS[state.recordingState]), enabled: false },
+    { type: 'separator' },
+    {
+      label: t(
+        isRecordingOpen(state.recordingState)
+          ? 'tray.stopRecording'
+          : 'tray.startRecording',
+      ),
+      enabled: state.recordingState !== 'transcribing',
+      click: handlers.toggleRecording,
+    },
+    {
+      label: t('tray.copyLast'),
+      enabled: state.hasLastTranscript,
+      click: handlers.copyLastTranscript,
+    },
+    { label: t('tray.language'), submenu: languageItems },
+    { label: t('tray.openHistory'), click: handlers.openHistory },
+    { type: 'separator' },
+    { label: t('tray.show'), click: handlers.showWindow },
+    {
+      label: t('tray.overlay'),
+      type: 'checkbox',
+      checked: state.overlayEnabled,
+      click: (item) => handlers.setOverlayEnabled(item.checked),
+    },
+    {
+      label: t('tray.openAtLogin'),
+      type: 'checkbox',
+      checked: state.openAtLogin,
+      click: (item) => handlers.setOpenAtLogin(item.checked),
+    },
+    { type: 'separator' },
+    { label: t('tray.quit'), click: handlers.quit },
+  ]);
+};
+
+/**
+ * Rebuilds menu and tooltip from the current state. Called whenever the
+ * recording state, the language or the UI language changes.
+ */
+export const updateTray = () => {
+  if (!tray || !getState || !actions) {
+    return;
+  }
+  const state = getState();
+  tray.setToolTip(`MicScribe – ${t(STATE_LABELS[state.recordingState])}`);
+  // macOS shows the title next to the icon; other platforms ignore it.
+  tray.setTitle(TRAY_TITLES[state.recordingState] ?? '');
+  tray.setContextMenu(buildMenu(state, actions));
+};
+
+export const createTray = (options: {
+  icon: string | undefined;
+  getState: () => TrayState;
+  actions: TrayActions;
+}) => {
+  if (tray || !options.icon) {
+    return;
+  }
+  tray = new Tray(options.icon);
+  getState = options.getState;
+  actions = options.actions;
+  tray.on('click', () => options.actions.showWindow());
+  updateTray();
+};
+
+export const destroyTray = () => {
+  tray?.destroy();
+  tray = null;
+};
@@ -0,0 +1,46 @@
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
+import type { UiLanguage } from './shared/i18n';
+import type {
+  RecordingLevel,
+  RecordingResult,
+  RecordingState,
+} from './shared/recording';
+import type { Theme } from './shared/settings';
+
+type OverlaySettings = {
+  uiLanguage: UiLanguage;
+  theme: Theme;
+};
+
+const subscribe = <Payload>(
+  channel: string,
+  callback: (payload: Payload) => void,
+): (() => void) => {
+  const listener = (_event: IpcRendererEvent, payload: Payload) =>
+    callback(payload);
+  ipcRenderer.on(channel, listener);
+  return () => {
+    ipcRenderer.removeListener(channel, listener);
+  };
+};
+
+contextBridge.exposeInMainWorld('micscribeOverlay', {
+  getState: (): Promise<
+    OverlaySettings & { recordingState: RecordingState }
+  > => ipcRenderer.invoke('overlay:get-state'),
+  toggleRecording: (): Promise<void> =>
+    ipcRenderer.invoke('overlay:toggle-recording'),
+  setExpanded: (expanded: boolean): Promise<void> =>
+    ipcRenderer.invoke('overlay:set-expanded', expanded),
+  hide: (): Promise<void> => ipcRenderer.invoke('overlay:hide'),
+  copyText: (text: string): Promise<void> =>
+    ipcRenderer.invoke('clipboard:write', text),
+  onState: (callback: (state: RecordingState) => void) =>
+    subscribe('overlay:state', callback),
+  onLevel: (callback: (level: RecordingLevel) => void) =>
+    subscribe('overlay:level', callback),
+  onResult: (callback: (result: RecordingResult) => void) =>
+    subscribe('overlay:result', callback),
+  onSettings: (callback: (settings: OverlaySettings) => void) =>
+    subscribe('overlay:settings', callback),
+});
@@ -0,0 +1,183 @@
+import './overlay.css';
+import { createIcons, icons } from 'lucide';
+import { MessageKey, UiLanguage, translate } from './shared/i18n';
+import {
+  RecordingLevel,
+  RecordingResult,
+  RecordingState,
+  isRecordingOpen,
+} from './shared/recording';
+import type { Theme } from './shared/settings';
+
+// The overlay only mirrors the main window: recording and transcription run
+// in renderer.ts, commands are forwarded through the main process.
+
+const overlayBar = document.querySelector<HTMLDivElement>('#overlay-bar');
+const recordButton = document.querySelector<HTMLButtonElement>('#overlay-record');
+const statusText = document.querySelector<HTMLSpanElement>('#overlay-status');
+const levelFill = document.querySelector<HTMLDivElement>('#overlay-level-fill');
+const timer = document.querySelector<HTMLSpanElement>('#overlay-timer');
+const hideButton = document.querySelector<HTMLButtonElement>('#overlay-hide');
+const toast = document.querySelector<HTMLDivElement>('#overlay-toast');
+const toastText = document.querySelector<HTMLParagraphElement>('#overlay-toast-text');
+const copyButton = document.querySelector<HTMLButtonElement>('#overlay-copy');
+const dismissButton = document.querySelector<HTMLButtonElement>('#overlay-dismiss');
+
+if (
+  !overlayBar ||
+  !recordButton ||
+  !statusText ||
+  !levelFill ||
+  !timer ||
+  !hideButton ||
+  !toast ||
+  !toastText ||
+  !copyButton ||
+  !dismissButton
+) {
+  throw new Error('UI Elemente fehlen im DOM.');
+}
+
+const TOAST_DURATION_MS = 10000;
+
+let uiLanguage: UiLanguage = 'de';
+let theme: Theme = 'system';
+let recordingState: RecordingState = 'idle';
+let resultText = '';
+let toastTimer: number | null = null;
+
+const t = (key: MessageKey) => translate(uiLanguage, key);
+
+const formatTimer = (elapsedMs: number) => {
+  const totalSeconds = Math.floor(elapsedMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
+
+const STATE_LABELS = {
+  idle: 'tray.stateIdle',
+  recording: 'tray.stateRecording',
+  paused: 'tray.statePaused',
+  transcribing: 'tray.stateTranscribing',
+} as const;
+
+const renderState = () => {
+  overlayBar.dataset.state = recordingState;
+  statusText.textContent = t(STATE_LABELS[recordingState]);
+  recordButton.disabled = recordingState === 'transcribing';
+  const label = t(
+    isRecordingOpen(recordingState)
+      ? 'tray.stopRecording'
+      : 'tray.startRecording',
+  );
+  recordButton.title = label;
+  recordButton.setAttribute('aria-label', label);
+  if (recordingState !== 'recording') {
+    levelFill.style.width = '0%';
+    overlayBar.dataset.silent = 'false';
+  }
+  if (recordingState === 'idle') {
+    timer.textContent = formatTimer(0);
+  }
+};
+
+const renderLabels = () => {
+  document.documentElement.lang = uiLanguage;
+  hideButton.title = t('overlay.hide');
+  hideButton.setAttribute('aria-label', t('overlay.hide'));
+  copyButton.textContent = t('common.copy');
+  dismissButton.textContent = t('common.close');
+  renderState();
+};
+
+const applyTheme = () => {
+  const effective =
+    theme === 'system'
+      ? window.matchMedia('(prefers-color-scheme: dark)').matches
+        ? 'dark'
+        : 'light'
+      : theme;
+  document.documentElement.setAttribute('data-theme', effective);
+};
+
+const hideToast = () => {
+  if (toastTimer !== null) {
+    window.clearTimeout(toastTimer);
+    toastTimer = null;
+  }
+  toast.classList.remove('active');
+  void window.micscribeOverlay.setExpanded(false);
+};
+
+const showToast = (result: RecordingResult) => {
+  const isError = 'error' in result;
+  resultText = isError ? '' : result.text;
+  toastText.textContent = isError
+    ? result.error
+    : result.text || t('overlay.empty');
+  toast.dataset.error = isError ? 'true' : 'false';
+  copyButton.disabled = !resultText;
+  copyButton.textContent = t('common.copy');
+
+  void window.micscribeOverlay.setExpanded(true);
+  toast.classList.add('active');
+  if (toastTimer !== null) {
+    window.clearTimeout(toastTimer);
+  }
+  toastTimer = window.setTimeout(hideToast, TOAST_DURATION_MS);
+};
+
+recordButton.addEventListener('click', () => {
+  void window.micscribeOverlay.toggleRecording();
+});
+
+hideButton.addEventListener('click', () => {
+  void window.micscribeOverlay.hide();
+});
+
+copyButton.addEventListener('click', async () => {
+  await window.micscribeOverlay.copyText(resultText);
+  copyButton.textContent = t('overlay.copied');
+});
+
+dismissButton.addEventListener('click', hideToast);
+
+window.micscribeOverlay.onState((state) => {
+  recordingState = state;
+  if (state === 'recording') {
+    hideToast();
+  }
+  renderState();
+});
+
+window.micscribeOverlay.onLevel((sample: RecordingLevel) => {
+  levelFill.style.width = `${Math.round(sample.level * 100)}%`;
+  overlayBar.dataset.silent = sample.silent ? 'true' : 'false';
+  timer.textContent = formatTimer(sample.elapsedMs);
+});
+
+window.micscribeOverlay.onResult(showToast);
+
+window.micscribeOverlay.onSettings((next) => {
+  uiLanguage = next.uiLanguage;
+  theme = next.theme;
+  applyTheme();
+  renderLabels();
+});
+
+window
+  .matchMedia('(prefers-color-scheme: dark)')
+  .addEventListener('change', applyTheme);
+
+const init = async () => {
+  const state = await window.micscribeOverlay.getState();
+  uiLanguage = state.uiLanguage;
+  theme = state.theme;
+  recordingState = state.recordingState;
+  applyTheme();
+  renderLabels();
+};
+
+createIcons({ icons });
+void init();
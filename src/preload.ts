@@ -1,32 +1,223 @@
-import { contextBridge, ipcRenderer } from 'electron';
+import {
+  contextBridge,
+  ipcRenderer,
+  IpcRendererEvent,
+  webUtils,
+} from 'electron';
+import type { ExportFormat, Transcript } from './shared/transcript';
+import type { Language } from './shared/languages';
+import type {
+  RecordingLevel,
+  RecordingResult,
+  RecordingState,
+} from './shared/recording';
+import type {
+  ProviderId,
+  PublicSettings,
+  Settings,
+  SettingsUpdate,
+} from './shared/settings';
+import type { JobProgress } from './shared/jobs';
+import type { HistoryEntry, HistoryTextUpdate } from './shared/history';
+import type { RetryQueueItem } from './shared/retry-queue';
+import type { ApiState } from './shared/api';
+import type {
+  KeyInfo,
+  KeyState,
+  KeyTestResult,
+} from './shared/credentials';
 
-type Language = 'de' | 'en';
-type Theme = 'light' | 'dark' | 'system';
-
-type Settings = {
-  language: Language;
-  preferredMicDeviceId: string | null;
-  theme?: Theme;
-};
+type HotkeyAction = 'toggle' | 'start' | 'stop';
 
 contextBridge.exposeInMainWorld('micscribe', {
-  getSettings: (): Promise<Settings & { hasReplicateToken: boolean }> =>
+  getSettings: (): Promise<PublicSettings> =>
     ipcRenderer.invoke('settings:get'),
-  setSettings: (
-    updates: Partial<Settings>,
-  ): Promise<Settings & { hasReplicateToken: boolean }> =>
+  setSettings: (updates: Partial<Settings>): Promise<SettingsUpdate> =>
     ipcRenderer.invoke('settings:set', updates),
+  exportSettings: (): Promise<{ saved: boolean; filePath?: string }> =>
+    ipcRenderer.invoke('settings:export'),
+  importSettings: (): Promise<SettingsUpdate | null> =>
+    ipcRenderer.invoke('settings:import'),
+  copyDiagnostics: (): Promise<void> => ipcRenderer.invoke('diagnostics:copy'),
+  logError: (payload: { category: string; message: string }): Promise<void> =>
+    ipcRenderer.invoke('diagnostics:log', payload),
+  openMicPrivacySettings: (): Promise<boolean> =>
+    ipcRenderer.invoke('app:open-mic-privacy'),
   transcribeAudio: (payload: {
+    jobId?: string;
+    audioBuffer: ArrayBuffer;
+    mimeType?: string;
+    language: Language;
+    durationMs?: number;
+    saveToHistory?: boolean;
+    queueOnFailure?: boolean;
+  }): Promise<Transcript> => ipcRenderer.invoke('transcribe-audio', payload),
+  cancelTranscription: (jobId: string): Promise<void> =>
+    ipcRenderer.invoke('transcription:cancel', jobId),
+  onTranscriptionProgress: (
+    callback: (progress: JobProgress) => void,
+  ): (() => void) => {
+    const listener = (_event: IpcRendererEvent, progress: JobProgress) =>
+      callback(progress);
+    ipcRenderer.on('transcription:progress', listener);
+    return () => {
+      ipcRenderer.removeListener('transcription:progress', listener);
+    };
+  },
+  listRetryQueue: (): Promise<RetryQueueItem[]> =>
+    ipcRenderer.invoke('retry-queue:list'),
+  queueRecording: (payload: {
     audioBuffer: ArrayBuffer;
     mimeType?: string;
     language: Language;
-  }): Promise<string> => ipcRenderer.invoke('transcribe-audio', payload),
+    durationMs?: number;
+    error: string;
+  }): Promise<void> => ipcRenderer.invoke('retry-queue:add', payload),
+  retryQueueItem: (id: string): Promise<void> =>
+    ipcRenderer.invoke('retry-queue:retry', id),
+  discardQueueItem: (id: string): Promise<void> =>
+    ipcRenderer.invoke('retry-queue:discard', id),
+  notifyOnline: (): Promise<void> => ipcRenderer.invoke('retry-queue:online'),
+  onRetryQueueChanged: (
+    callback: (items: RetryQueueItem[]) => void,
+  ): (() => void) => {
+    const listener = (_event: IpcRendererEvent, items: RetryQueueItem[]) =>
+      callback(items);
+    ipcRenderer.on('retry-queue:changed', listener);
+    return () => {
+      ipcRenderer.removeListener('retry-queue:changed', listener);
+    };
+  },
+  onRetryCompleted: (
+    callback: (transcript: Transcript) => void,
+  ): (() => void) => {
+    const listener = (_event: IpcRendererEvent, transcript: Transcript) =>
+      callback(transcript);
+    ipcRenderer.on('retry-queue:completed', listener);
+    return () => {
+      ipcRenderer.removeListener('retry-queue:completed', listener);
+    };
+  },
+  openAudioFiles: (): Promise<string[]> => ipcRenderer.invoke('files:open'),
+  // Dropped File objects carry no path in the renderer since Electron 32.
+  getPathForFile: (file: File): string => webUtils.getPathForFile(file),
+  transcribeFile: (payload: {
+    jobId?: string;
+    filePath: string;
+    language: Language;
+  }): Promise<Transcript> => ipcRenderer.invoke('transcribe-file', payload),
+  exportTranscript: (payload: {
+    transcript: Transcript;
+    format: ExportFormat;
+  }): Promise<{ saved: boolean; filePath?: string }> =>
+    ipcRenderer.invoke('transcript:export', payload),
+  rewriteTranscript: (payload: {
+    text: string;
+    mode: string;
+  }): Promise<{ text: string }> =>
+    ipcRenderer.invoke('transcript:rewrite', payload),
+  previewPostProcessing: (payload: {
+    text: string;
+    language: string | null;
+  }): Promise<{ text: string; invalidRules: number[] }> =>
+    ipcRenderer.invoke('post-processing:preview', payload),
+  postProcessText: (payload: {
+    text: string;
+    language: string | null;
+  }): Promise<string> => ipcRenderer.invoke('post-processing:apply', payload),
+  addHistoryEntry: (payload: {
+    text: string;
+    language: string;
+    durationMs?: number;
+    audioBuffer?: ArrayBuffer;
+    mimeType?: string;
+  }): Promise<string | undefined> =>
+    ipcRenderer.invoke('history:add', payload),
+  getHistoryAudio: (
+    id: string,
+  ): Promise<{ data: Uint8Array; mimeType: string } | null> =>
+    ipcRenderer.invoke('history:audio', id),
+  retranscribeHistoryEntry: (payload: {
+    jobId?: string;
+    id: string;
+    language: Language;
+    provider: ProviderId;
+  }): Promise<Transcript> =>
+    ipcRenderer.invoke('history:retranscribe', payload),
+  updateHistoryText: (payload: HistoryTextUpdate): Promise<void> =>
+    ipcRenderer.invoke('history:update-text', payload),
+  chooseAudioDirectory: (): Promise<PublicSettings> =>
+    ipcRenderer.invoke('audio:choose-directory'),
+  listHistory: (query?: string): Promise<HistoryEntry[]> =>
+    ipcRenderer.invoke('history:list', query),
+  deleteHistoryEntry: (id: string): Promise<void> =>
+    ipcRenderer.invoke('history:delete', id),
+  clearHistory: (): Promise<void> => ipcRenderer.invoke('history:clear'),
   copyText: (text: string): Promise<void> =>
     ipcRenderer.invoke('clipboard:write', text ?? ''),
-  setReplicateToken: (
-    token: string,
-  ): Promise<{ hasReplicateToken: boolean }> =>
-    ipcRenderer.invoke('replicate:set-token', token),
-  clearReplicateToken: (): Promise<{ hasReplicateToken: boolean }> =>
-    ipcRenderer.invoke('replicate:clear-token'),
+  pasteText: (text: string): Promise<void> =>
+    ipcRenderer.invoke('clipboard:paste', text ?? ''),
+  onHotkey: (callback: (action: HotkeyAction) => void): (() => void) => {
+    const listener = (_event: IpcRendererEvent, action: HotkeyAction) =>
+      callback(action);
+    ipcRenderer.on('hotkey', listener);
+    return () => {
+      ipcRenderer.removeListener('hotkey', listener);
+    };
+  },
+  setRecordingState: (state: RecordingState): Promise<void> =>
+    ipcRenderer.invoke('recording:state', state),
+  sendRecordingLevel: (level: RecordingLevel): void =>
+    ipcRenderer.send('recording:level', level),
+  sendRecordingResult: (result: RecordingResult): Promise<void> =>
+    ipcRenderer.invoke('recording:result', result),
+  onSettingsChanged: (
+    callback: (settings: PublicSettings) => void,
+  ): (() => void) => {
+    const listener = (_event: IpcRendererEvent, settings: PublicSettings) =>
+      callback(settings);
+    ipcRenderer.on('settings:changed', listener);
+    return () => {
+      ipcRenderer.removeListener('settings:changed', listener);
+    };
+  },
+  onApiRecording: (
+    callback: (action: 'start' | 'stop') => void,
+  ): (() => void) => {
+    const listener = (_event: IpcRendererEvent, action: 'start' | 'stop') =>
+      callback(action);
+    ipcRenderer.on('api:recording', listener);
+    return () => {
+      ipcRenderer.removeListener('api:recording', listener);
+    };
+  },
+  getApiState: (): Promise<ApiState> => ipcRenderer.invoke('api:state'),
+  copyApiToken: (): Promise<boolean> => ipcRenderer.invoke('api:copy-token'),
+  renewApiToken: (): Promise<ApiState> =>
+    ipcRenderer.invoke('api:renew-token'),
+  onOpenHistory: (callback: () => void): (() => void) => {
+    const listener = () => callback();
+    ipcRenderer.on('history:open', listener);
+    return () => {
+      ipcRenderer.removeListener('history:open', listener);
+    };
+  },
+  listKeys: (): Promise<KeyState> => ipcRenderer.invoke('keys:list'),
+  testKey: (input: {
+    provider: ProviderId;
+    value?: string;
+    id?: string;
+  }): Promise<KeyTestResult> => ipcRenderer.invoke('keys:test', input),
+  addKey: (input: {
+    provider: ProviderId;
+    name: string;
+    value: string;
+  }): Promise<KeyState & { added: KeyInfo; test: KeyTestResult }> =>
+    ipcRenderer.invoke('keys:add', input),
+  deleteKey: (id: string): Promise<KeyState> =>
+    ipcRenderer.invoke('keys:delete', id),
+  activateKey: (
+    provider: ProviderId,
+    id: string,
+  ): Promise<KeyState> => ipcRenderer.invoke('keys:activate', provider, id),
 });
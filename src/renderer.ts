@@ -1,49 +1,251 @@
 import './index.css';
 import { createIcons, icons } from 'lucide';
-
-type Language = 'de' | 'en';
-type Theme = 'light' | 'dark' | 'system';
-
-type Settings = {
-  language: Language;
-  preferredMicDeviceId: string | null;
-  hasReplicateToken?: boolean;
-  theme?: Theme;
-};
+import { TRANSCRIPTION_SAMPLE_RATE, decodeToMono, encodeWav } from './ui/wav';
+import { diffWords } from './ui/diff';
+import { getSelectionTimeRange } from './ui/transcript-selection';
+import {
+  LevelMonitor,
+  SILENCE_THRESHOLD_DB,
+  createLevelMonitor,
+} from './ui/level-meter';
+import { getAudioConstraints, recordMicTest } from './ui/microphone';
+import {
+  LIVE_TIMESLICE_MS,
+  LiveTranscriber,
+  createLiveTranscriber,
+} from './ui/live-transcription';
+import {
+  AudioSegment,
+  splitIntoSegments,
+  stitchTranscripts,
+} from './ui/chunking';
+import {
+  ExportFormat,
+  Transcript,
+  createTranscript,
+  isSpeakerNameTaken,
+  replaceSpeakerLabel,
+} from './shared/transcript';
+import {
+  MessageKey,
+  MessageParams,
+  UiLanguage,
+  getLocale,
+  translate,
+} from './shared/i18n';
+import {
+  AUTO_LANGUAGE,
+  LANGUAGES,
+  Language,
+  getLanguageName,
+} from './shared/languages';
+import {
+  BUILTIN_REWRITE_MODES,
+  BuiltinRewriteMode,
+  CustomRewriteMode,
+} from './shared/rewrite';
+import { RecordingState } from './shared/recording';
+import { JobStage } from './shared/jobs';
+import { SUPPORTED_EXTENSIONS } from './shared/audio-formats';
+import { KeyState, KeyTestResult } from './shared/credentials';
+import { HistoryEntry, HistoryTextUpdate } from './shared/history';
+import { RetryQueueItem } from './shared/retry-queue';
+import { ApiState } from './shared/api';
+import {
+  DecodedError,
+  ERROR_CATEGORIES,
+  ErrorAction,
+  ErrorCategory,
+  decodeErrorMessage,
+  encodeErrorMessage,
+} from './shared/errors';
+import {
+  DEFAULT_SETTINGS,
+  HotkeyMode,
+  MIC_SAMPLE_RATES,
+  PROVIDER_CAPABILITIES,
+  ProviderId,
+  PublicSettings,
+  ReplacementRule,
+  Settings,
+  Theme,
+} from './shared/settings';
 
 // DOM Elements
 const recordButton = document.querySelector<HTMLButtonElement>('#record-button');
 const statusLine = document.querySelector<HTMLParagraphElement>('#status-line');
+const statusActionButton = document.querySelector<HTMLButtonElement>('#status-action');
+const liveTranscriptText = document.querySelector<HTMLParagraphElement>('#live-transcript');
 const transcriptArea = document.querySelector<HTMLTextAreaElement>('#transcript');
 const copyButton = document.querySelector<HTMLButtonElement>('#copy-button');
 const languageSelect = document.querySelector<HTMLSelectElement>('#language');
+const uiLanguageSelect = document.querySelector<HTMLSelectElement>('#ui-language');
 const micSelect = document.querySelector<HTMLSelectElement>('#microphone');
+const micEchoCancellationCheckbox = document.querySelector<HTMLInputElement>('#mic-echo-cancellation');
+const micNoiseSuppressionCheckbox = document.querySelector<HTMLInputElement>('#mic-noise-suppression');
+const micAutoGainCheckbox = document.querySelector<HTMLInputElement>('#mic-auto-gain');
+const micChannelsSelect = document.querySelector<HTMLSelectElement>('#mic-channels');
+const micSampleRateSelect = document.querySelector<HTMLSelectElement>('#mic-sample-rate');
+const micTestButton = document.querySelector<HTMLButtonElement>('#mic-test-button');
+const micTest = document.querySelector<HTMLDivElement>('#mic-test');
+const micTestLevel = document.querySelector<HTMLDivElement>('#mic-test-level');
+const micTestStatus = document.querySelector<HTMLParagraphElement>('#mic-test-status');
+const micTestAudio = document.querySelector<HTMLAudioElement>('#mic-test-audio');
 const apiTokenInput = document.querySelector<HTMLInputElement>('#api-token');
+const replicateKeySelect = document.querySelector<HTMLSelectElement>('#replicate-key-select');
+const replicateKeyNameInput = document.querySelector<HTMLInputElement>('#replicate-key-name');
+const testTokenButton = document.querySelector<HTMLButtonElement>('#test-token');
 const saveTokenButton = document.querySelector<HTMLButtonElement>('#save-token');
 const clearTokenButton = document.querySelector<HTMLButtonElement>('#clear-token');
 const tokenStatus = document.querySelector<HTMLSpanElement>('#token-status');
+const providerSelect = document.querySelector<HTMLSelectElement>('#provider');
+const replicateSettings = document.querySelector<HTMLDivElement>('#replicate-settings');
+const openaiSettings = document.querySelector<HTMLDivElement>('#openai-settings');
+const openaiBaseUrlInput = document.querySelector<HTMLInputElement>('#openai-base-url');
+const openaiModelInput = document.querySelector<HTMLInputElement>('#openai-model');
+const openaiDiarizationModelInput = document.querySelector<HTMLInputElement>('#openai-diarization-model');
+const diarizationCheckbox = document.querySelector<HTMLInputElement>('#diarization');
+const openaiKeyInput = document.querySelector<HTMLInputElement>('#openai-api-key');
+const openaiKeySelect = document.querySelector<HTMLSelectElement>('#openai-key-select');
+const openaiKeyNameInput = document.querySelector<HTMLInputElement>('#openai-key-name');
+const testOpenaiKeyButton = document.querySelector<HTMLButtonElement>('#test-openai-key');
+const keyEncryptionWarning = document.querySelector<HTMLParagraphElement>('#key-encryption-warning');
+const saveOpenaiKeyButton = document.querySelector<HTMLButtonElement>('#save-openai-key');
+const clearOpenaiKeyButton = document.querySelector<HTMLButtonElement>('#clear-openai-key');
+const openaiKeyStatus = document.querySelector<HTMLSpanElement>('#openai-key-status');
 const themeToggle = document.querySelector<HTMLButtonElement>('#theme-toggle');
 const getThemeIcon = () => document.querySelector<HTMLElement>('#theme-icon');
 const settingsButton = document.querySelector<HTMLButtonElement>('#settings-button');
 const showResultButton = document.querySelector<HTMLButtonElement>('#show-result-button');
 const recordAgainButton = document.querySelector<HTMLButtonElement>('#record-again-button');
 const cancelRecordButton = document.querySelector<HTMLButtonElement>('#cancel-record-button');
+const pauseRecordButton = document.querySelector<HTMLButtonElement>('#pause-record-button');
+const getPauseIcon = () => document.querySelector<HTMLElement>('#pause-icon');
+const quickLanguageSelect = document.querySelector<HTMLSelectElement>('#quick-language');
+const exportFormatSelect = document.querySelector<HTMLSelectElement>('#export-format');
+const exportButton = document.querySelector<HTMLButtonElement>('#export-button');
+const transcriptMeta = document.querySelector<HTMLParagraphElement>('#transcript-meta');
+const undoEditButton = document.querySelector<HTMLButtonElement>('#undo-edit');
+const redoEditButton = document.querySelector<HTMLButtonElement>('#redo-edit');
+const diffToggleButton = document.querySelector<HTMLButtonElement>('#toggle-diff');
+const revertEditButton = document.querySelector<HTMLButtonElement>('#revert-edit');
+const transcriptDiff = document.querySelector<HTMLParagraphElement>('#transcript-diff');
+const speakerNames = document.querySelector<HTMLDivElement>('#speaker-names');
+const speakerNameList = document.querySelector<HTMLDivElement>('#speaker-name-list');
+const historyButton = document.querySelector<HTMLButtonElement>('#history-button');
+const historySearchInput = document.querySelector<HTMLInputElement>('#history-search');
+const historyClearButton = document.querySelector<HTMLButtonElement>('#history-clear');
+const historyList = document.querySelector<HTMLUListElement>('#history-list');
+const historyEmpty = document.querySelector<HTMLParagraphElement>('#history-empty');
+const historyKeepAudioCheckbox = document.querySelector<HTMLInputElement>('#history-keep-audio');
+const audioDirectoryText = document.querySelector<HTMLParagraphElement>('#audio-directory');
+const chooseAudioDirectoryButton = document.querySelector<HTMLButtonElement>('#choose-audio-directory');
+const resetAudioDirectoryButton = document.querySelector<HTMLButtonElement>('#reset-audio-directory');
+const audioMaxAgeInput = document.querySelector<HTMLInputElement>('#audio-max-age');
+const audioMaxSizeInput = document.querySelector<HTMLInputElement>('#audio-max-size');
+const recordingPlayback = document.querySelector<HTMLDivElement>('#recording-playback');
+const recordingAudio = document.querySelector<HTMLAudioElement>('#recording-audio');
+const retranscribeLanguageSelect = document.querySelector<HTMLSelectElement>('#retranscribe-language');
+const retranscribeProviderSelect = document.querySelector<HTMLSelectElement>('#retranscribe-provider');
+const retranscribeButton = document.querySelector<HTMLButtonElement>('#retranscribe-button');
+const retranscribeSelectionButton = document.querySelector<HTMLButtonElement>('#retranscribe-selection');
+const exportSettingsButton = document.querySelector<HTMLButtonElement>('#export-settings');
+const importSettingsButton = document.querySelector<HTMLButtonElement>('#import-settings');
+const localApiCheckbox = document.querySelector<HTMLInputElement>('#local-api-enabled');
+const localApiPortInput = document.querySelector<HTMLInputElement>('#local-api-port');
+const localApiStatus = document.querySelector<HTMLParagraphElement>('#local-api-status');
+const localApiActions = document.querySelector<HTMLDivElement>('#local-api-actions');
+const localApiCopyTokenButton = document.querySelector<HTMLButtonElement>('#local-api-copy-token');
+const localApiRenewTokenButton = document.querySelector<HTMLButtonElement>('#local-api-renew-token');
+const copyDiagnosticsButton = document.querySelector<HTMLButtonElement>('#copy-diagnostics');
+const vocabularyInput = document.querySelector<HTMLTextAreaElement>('#vocabulary');
+const voiceCommandsCheckbox = document.querySelector<HTMLInputElement>('#voice-commands');
+const ruleList = document.querySelector<HTMLUListElement>('#rule-list');
+const addRuleButton = document.querySelector<HTMLButtonElement>('#add-rule');
+const ruleErrors = document.querySelector<HTMLParagraphElement>('#rule-errors');
+const postProcessingPreview = document.querySelector<HTMLParagraphElement>('#post-processing-preview');
+const rewriteModeSelect = document.querySelector<HTMLSelectElement>('#rewrite-mode');
+const rewriteButton = document.querySelector<HTMLButtonElement>('#rewrite-button');
+const rewriteCompare = document.querySelector<HTMLDivElement>('#rewrite-compare');
+const rewriteOriginal = document.querySelector<HTMLParagraphElement>('#rewrite-original');
+const rewriteRevertButton = document.querySelector<HTMLButtonElement>('#rewrite-revert');
+const rewriteTemplateList = document.querySelector<HTMLUListElement>('#rewrite-template-list');
+const addRewriteTemplateButton = document.querySelector<HTMLButtonElement>('#add-rewrite-template');
+const rewriteModelInput = document.querySelector<HTMLInputElement>('#rewrite-model');
+const hotkeyInput = document.querySelector<HTMLInputElement>('#hotkey');
+const hotkeyStatus = document.querySelector<HTMLSpanElement>('#hotkey-status');
+const clearHotkeyButton = document.querySelector<HTMLButtonElement>('#clear-hotkey');
+const hotkeyModeSelect = document.querySelector<HTMLSelectElement>('#hotkey-mode');
+const hotkeyAutoCopyCheckbox = document.querySelector<HTMLInputElement>('#hotkey-auto-copy');
+const hotkeyAutoPasteCheckbox = document.querySelector<HTMLInputElement>('#hotkey-auto-paste');
+const closeToTrayCheckbox = document.querySelector<HTMLInputElement>('#close-to-tray');
+const openAtLoginCheckbox = document.querySelector<HTMLInputElement>('#open-at-login');
+const overlayCheckbox = document.querySelector<HTMLInputElement>('#overlay-enabled');
+const chunkingCheckbox = document.querySelector<HTMLInputElement>('#chunking-enabled');
+const chunkThresholdInput = document.querySelector<HTMLInputElement>('#chunk-threshold');
+const chunkLengthInput = document.querySelector<HTMLInputElement>('#chunk-length');
+const openFileButton = document.querySelector<HTMLButtonElement>('#open-file-button');
+const fileQueueList = document.querySelector<HTMLUListElement>('#file-queue');
+const dropOverlay = document.querySelector<HTMLDivElement>('#drop-overlay');
+const queueButton = document.querySelector<HTMLButtonElement>('#queue-button');
+const queueCount = document.querySelector<HTMLSpanElement>('#queue-count');
+const queueList = document.querySelector<HTMLUListElement>('#queue-list');
+const recordingIndicator = document.querySelector<HTMLDivElement>('#recording-indicator');
+const levelMeterFill = document.querySelector<HTMLDivElement>('#level-meter-fill');
+const recordingTimer = document.querySelector<HTMLSpanElement>('#recording-timer');
+const silenceAutoStopInput = document.querySelector<HTMLInputElement>('#silence-auto-stop');
+const maxRecordingInput = document.querySelector<HTMLInputElement>('#max-recording');
+const transcriptionTimeoutInput = document.querySelector<HTMLInputElement>('#transcription-timeout');
+const liveTranscriptionCheckbox = document.querySelector<HTMLInputElement>('#live-transcription');
 
 // Modal Elements
 const settingsModal = document.querySelector<HTMLDivElement>('#settings-modal');
 const resultModal = document.querySelector<HTMLDivElement>('#result-modal');
+const historyModal = document.querySelector<HTMLDivElement>('#history-modal');
+const queueModal = document.querySelector<HTMLDivElement>('#queue-modal');
 
 if (
   !recordButton ||
   !statusLine ||
+  !statusActionButton ||
+  !liveTranscriptText ||
   !transcriptArea ||
   !copyButton ||
   !languageSelect ||
+  !uiLanguageSelect ||
   !micSelect ||
+  !micEchoCancellationCheckbox ||
+  !micNoiseSuppressionCheckbox ||
+  !micAutoGainCheckbox ||
+  !micChannelsSelect ||
+  !micSampleRateSelect ||
+  !micTestButton ||
+  !micTest ||
+  !micTestLevel ||
+  !micTestStatus ||
+  !micTestAudio ||
   !apiTokenInput ||
+  !replicateKeySelect ||
+  !replicateKeyNameInput ||
+  !testTokenButton ||
   !saveTokenButton ||
   !clearTokenButton ||
   !tokenStatus ||
+  !providerSelect ||
+  !replicateSettings ||
+  !openaiSettings ||
+  !openaiBaseUrlInput ||
+  !openaiModelInput ||
+  !openaiDiarizationModelInput ||
+  !diarizationCheckbox ||
+  !openaiKeyInput ||
+  !openaiKeySelect ||
+  !openaiKeyNameInput ||
+  !testOpenaiKeyButton ||
+  !keyEncryptionWarning ||
+  !saveOpenaiKeyButton ||
+  !clearOpenaiKeyButton ||
+  !openaiKeyStatus ||
   !themeToggle ||
   !getThemeIcon() ||
   !settingsButton ||
@@ -51,7 +253,87 @@ if (
   !resultModal ||
   !showResultButton ||
   !recordAgainButton ||
-  !cancelRecordButton
+  !cancelRecordButton ||
+  !pauseRecordButton ||
+  !getPauseIcon() ||
+  !quickLanguageSelect ||
+  !exportFormatSelect ||
+  !exportButton ||
+  !transcriptMeta ||
+  !undoEditButton ||
+  !redoEditButton ||
+  !diffToggleButton ||
+  !revertEditButton ||
+  !transcriptDiff ||
+  !speakerNames ||
+  !speakerNameList ||
+  !historyButton ||
+  !historySearchInput ||
+  !historyClearButton ||
+  !historyList ||
+  !historyEmpty ||
+  !historyKeepAudioCheckbox ||
+  !audioDirectoryText ||
+  !chooseAudioDirectoryButton ||
+  !resetAudioDirectoryButton ||
+  !audioMaxAgeInput ||
+  !audioMaxSizeInput ||
+  !recordingPlayback ||
+  !recordingAudio ||
+  !retranscribeLanguageSelect ||
+  !retranscribeProviderSelect ||
+  !retranscribeButton ||
+  !retranscribeSelectionButton ||
+  !exportSettingsButton ||
+  !importSettingsButton ||
+  !localApiCheckbox ||
+  !localApiPortInput ||
+  !localApiStatus ||
+  !localApiActions ||
+  !localApiCopyTokenButton ||
+  !localApiRenewTokenButton ||
+  !copyDiagnosticsButton ||
+  !vocabularyInput ||
+  !voiceCommandsCheckbox ||
+  !ruleList ||
+  !addRuleButton ||
+  !ruleErrors ||
+  !postProcessingPreview ||
+  !rewriteModeSelect ||
+  !rewriteButton ||
+  !rewriteCompare ||
+  !rewriteOriginal ||
+  !rewriteRevertButton ||
+  !rewriteTemplateList ||
+  !addRewriteTemplateButton ||
+  !rewriteModelInput ||
+  !hotkeyInput ||
+  !hotkeyStatus ||
+  !clearHotkeyButton ||
+  !hotkeyModeSelect ||
+  !hotkeyAutoCopyCheckbox ||
+  !hotkeyAutoPasteCheckbox ||
+  !closeToTrayCheckbox ||
+  !openAtLoginCheckbox ||
+  !overlayCheckbox ||
+  !chunkingCheckbox ||
+  !chunkThresholdInput ||
+  !chunkLengthInput ||
+  !openFileButton ||
+  !fileQueueList ||
+  !dropOverlay ||
+  !queueButton ||
+  !queueCount ||
+  !queueList ||
+  !queueModal ||
+  !recordingIndicator ||
+  !levelMeterFill ||
+  !recordingTimer ||
+  !silenceAutoStopInput ||
+  !liveTranscriptionCheckbox ||
+  !maxRecordingInput ||
+  !transcriptionTimeoutInput ||
+  !historyModal
 ) {
   throw new Error('UI Elemente fehlen im DOM.');
 }
@@ -61,8 +343,66 @@ let mediaRecorder: MediaRecorder | null = null;
 let chunks: Blob[] = [];
 let isRecording = false;
 let isTranscribing = false;
+let isTestingMic = false;
 let discardOnStop = false;
-let settings: Settings = { language: 'de', preferredMicDeviceId: null, theme: 'system' };
+// Why the recording was stopped, shown once its transcript is done.
+let stopError: unknown = null;
+// The transcription job the cancel button and the progress events refer to.
+let activeJob: { id: string; showStages: boolean } | null = null;
+let cancelRequested = false;
+let recordingStartedAt = 0;
+// Paused time is left out of the timer, the limits and the duration.
+let isPaused = false;
+let pausedAt = 0;
+let pausedTotalMs = 0;
+let startedByHotkey = false;
+let currentTranscript: Transcript | null = null;
+let levelMonitor: LevelMonitor | null = null;
+let liveTranscriber: LiveTranscriber | null = null;
+let settings: PublicSettings = {
+  ...DEFAULT_SETTINGS,
+  hasReplicateToken: false,
+  hasOpenaiApiKey: false,
+  hotkeyRegistered: false,
+};
+
+// Localization
+const getUiLanguage = (): UiLanguage => settings.uiLanguage || 'de';
+
+const t = (key: MessageKey, params?: MessageParams) =>
+  translate(getUiLanguage(), key, params);
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString(getLocale(getUiLanguage()));
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString(getLocale(getUiLanguage()));
+
+// Static markup carries data-i18n* attributes; dynamic text is rendered with t().
+const applyTranslations = () => {
+  document.documentElement.lang = getUiLanguage();
+  document.querySelectorAll<HTMLElement>('[data-i18n]').forEach((element) => {
+    element.textContent = t(element.dataset.i18n as MessageKey);
+  });
+  document
+    .querySelectorAll<HTMLInputElement>('[data-i18n-placeholder]')
+    .forEach((element) => {
+      element.placeholder = t(element.dataset.i18nPlaceholder as MessageKey);
+    });
+  document
+    .querySelectorAll<HTMLElement>('[data-i18n-title]')
+    .forEach((element) => {
+      element.title = t(element.dataset.i18nTitle as MessageKey);
+    });
+  document
+    .querySelectorAll<HTMLElement>('[data-i18n-aria-label]')
+    .forEach((element) => {
+      element.setAttribute(
+        'aria-label',
+        t(element.dataset.i18nAriaLabel as MessageKey),
+      );
+    });
+};
 
 // Modal Management
 const openModal = (modal: HTMLDivElement) => {
@@ -98,10 +438,481 @@ const setupModalCloseHandlers = (modal: HTMLDivElement) => {
 
 setupModalCloseHandlers(settingsModal);
 setupModalCloseHandlers(resultModal);
+setupModalCloseHandlers(historyModal);
+setupModalCloseHandlers(queueModal);
+
+// Result
+let playbackUrl: string | null = null;
+// The kept recording, decoded again to re-transcribe a selected passage.
+let playbackBlob: Blob | null = null;
+
+const hidePlayback = () => {
+  recordingPlayback.classList.remove('active');
+  recordingAudio.removeAttribute('src');
+  playbackBlob = null;
+  if (playbackUrl) {
+    URL.revokeObjectURL(playbackUrl);
+    playbackUrl = null;
+  }
+};
+
+// Kept recordings can be replayed while correcting the text and sent through
+// another language or provider.
+const loadPlayback = async (transcript: Transcript) => {
+  hidePlayback();
+  if (!transcript.historyId) {
+    return;
+  }
+  try {
+    const audio = await window.micscribe.getHistoryAudio(transcript.historyId);
+    if (!audio || currentTranscript !== transcript) {
+      return;
+    }
+    playbackBlob = new Blob([new Uint8Array(audio.data)], {
+      type: audio.mimeType,
+    });
+    playbackUrl = URL.createObjectURL(playbackBlob);
+    recordingAudio.src = playbackUrl;
+    retranscribeLanguageSelect.value = settings.language;
+    retranscribeProviderSelect.value =
+      settings.transcriptionProvider || 'replicate';
+    recordingPlayback.classList.add('active');
+  } catch (error) {
+    console.error('Loading the recording failed:', error);
+  }
+};
+
+// `editedText` is the text after manual edits; transcript.text stays the
+// transcribed text they can be reverted to.
+const showTranscript = (transcript: Transcript, editedText?: string) => {
+  const isSameRecording =
+    Boolean(transcript.historyId) &&
+    transcript.historyId === currentTranscript?.historyId;
+  saveEdit();
+  currentTranscript = transcript;
+  transcriptArea.value = editedText ?? transcript.text;
+  resetEditHistory();
+  hideRewriteComparison();
+  if (!isSameRecording) {
+    void loadPlayback(transcript);
+  }
+  transcriptMeta.textContent = [
+    transcript.model,
+    transcript.language
+      ? transcript.languageDetected
+        ? t('result.detectedLanguage', {
+            language: getLanguageName(transcript.language),
+          })
+        : transcript.language.toUpperCase()
+      : null,
+    transcript.segmentsEstimated
+      ? t('result.timestampsEstimated')
+      : t('result.segmentsWithTimestamps', {
+          count: transcript.segments.length,
+        }),
+  ]
+    .filter(Boolean)
+    .join(' · ');
+  renderSpeakerNames();
+};
+
+// Editing
+// Typing has to pause this long before the text becomes a new undo step.
+const EDIT_STEP_DELAY_MS = 700;
+const EDIT_SAVE_DELAY_MS = 1000;
+const MAX_EDIT_STEPS = 100;
+
+// Versions of the shown text, oldest first; editIndex is the one shown.
+let editSteps: string[] = [];
+let editIndex = 0;
+let editStepTimer: number | null = null;
+let pendingEdit: HistoryTextUpdate | null = null;
+let editSaveTimer: number | null = null;
+
+const getOriginalText = () => currentTranscript?.text ?? '';
+
+const renderDiff = () => {
+  transcriptDiff.replaceChildren(
+    ...diffWords(getOriginalText(), transcriptArea.value).map((part) => {
+      if (part.type === 'same') {
+        return document.createTextNode(part.text);
+      }
+      const element = document.createElement(
+        part.type === 'added' ? 'ins' : 'del',
+      );
+      element.textContent = part.text;
+      return element;
+    }),
+  );
+};
+
+const renderEditState = () => {
+  const isEdited = transcriptArea.value !== getOriginalText();
+  undoEditButton.disabled = editIndex === 0;
+  redoEditButton.disabled = editIndex >= editSteps.length - 1;
+  revertEditButton.disabled = !isEdited;
+  diffToggleButton.disabled = !isEdited;
+  if (!isEdited) {
+    transcriptDiff.classList.remove('active');
+  }
+  const showsDiff = transcriptDiff.classList.contains('active');
+  diffToggleButton.setAttribute('aria-pressed', String(showsDiff));
+  if (showsDiff) {
+    renderDiff();
+  }
+};
+
+// Writes a pending edit to the history entry right away, e.g. before another
+// transcript is shown.
+const saveEdit = () => {
+  if (editSaveTimer !== null) {
+    window.clearTimeout(editSaveTimer);
+    editSaveTimer = null;
+  }
+  if (!pendingEdit) {
+    return;
+  }
+  const edit = pendingEdit;
+  pendingEdit = null;
+  window.micscribe.updateHistoryText(edit).catch((error) => {
+    console.error('Saving the edited transcript failed:', error);
+  });
+};
+
+// The history entry keeps the transcribed text next to the edited one, so
+// revert and diff also work after reopening it.
+const scheduleEditSave = () => {
+  const id = currentTranscript?.historyId;
+  if (!id) {
+    return;
+  }
+  pendingEdit = {
+    id,
+    text: transcriptArea.value,
+    // Renamed speakers also changed the labels in the transcribed text.
+    ...(currentTranscript?.speakers
+      ? {
+          originalText: currentTranscript.text,
+          speakers: currentTranscript.speakers,
+        }
+      : {}),
+  };
+  if (editSaveTimer !== null) {
+    window.clearTimeout(editSaveTimer);
+  }
+  editSaveTimer = window.setTimeout(saveEdit, EDIT_SAVE_DELAY_MS);
+};
+
+// Takes the shown text as a new undo step if it changed; also ends the step
+// that is still being typed.
+const recordEditStep = () => {
+  if (editStepTimer !== null) {
+    window.clearTimeout(editStepTimer);
+    editStepTimer = null;
+  }
+  const text = transcriptArea.value;
+  if (text !== editSteps[editIndex]) {
+    editSteps = [...editSteps.slice(0, editIndex + 1), text].slice(
+      -MAX_EDIT_STEPS,
+    );
+    editIndex = editSteps.length - 1;
+    scheduleEditSave();
+  }
+  renderEditState();
+};
+
+const resetEditHistory = () => {
+  if (editStepTimer !== null) {
+    window.clearTimeout(editStepTimer);
+    editStepTimer = null;
+  }
+  editSteps = [transcriptArea.value];
+  editIndex = 0;
+  transcriptDiff.classList.remove('active');
+  renderEditState();
+};
+
+const showEditStep = (index: number) => {
+  editIndex = index;
+  transcriptArea.value = editSteps[index];
+  scheduleEditSave();
+  renderEditState();
+};
+
+const undoEdit = () => {
+  recordEditStep();
+  if (editIndex > 0) {
+    showEditStep(editIndex - 1);
+  }
+};
+
+const redoEdit = () => {
+  recordEditStep();
+  if (editIndex < editSteps.length - 1) {
+    showEditStep(editIndex + 1);
+  }
+};
+
+transcriptArea.addEventListener('input', () => {
+  if (editStepTimer !== null) {
+    window.clearTimeout(editStepTimer);
+  }
+  editStepTimer = window.setTimeout(recordEditStep, EDIT_STEP_DELAY_MS);
+  scheduleEditSave();
+});
+
+// The browser's own undo does not know about rewrites, re-transcribed
+// passages or renamed speakers, so the shortcuts use the steps above.
+transcriptArea.addEventListener('keydown', (event) => {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) {
+    return;
+  }
+  const key = event.key.toLowerCase();
+  if (key === 'z' && !event.shiftKey) {
+    event.preventDefault();
+    undoEdit();
+  } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+    event.preventDefault();
+    redoEdit();
+  }
+});
+
+undoEditButton.addEventListener('click', undoEdit);
+redoEditButton.addEventListener('click', redoEdit);
+
+revertEditButton.addEventListener('click', () => {
+  recordEditStep();
+  transcriptArea.value = getOriginalText();
+  recordEditStep();
+});
+
+diffToggleButton.addEventListener('click', () => {
+  transcriptDiff.classList.toggle('active');
+  renderEditState();
+});
+
+// Speakers
+// Renamed speakers change the labels in the text, including edits made to
+// it and its undo steps, in exports and in the history entry.
+const renameSpeaker = (id: string, value: string) => {
+  const speakers = currentTranscript?.speakers;
+  const previous = speakers?.[id];
+  const next = value.trim();
+  if (!currentTranscript || !speakers || !previous || next === previous) {
+    renderSpeakerNames();
+    return;
+  }
+  const taken = isSpeakerNameTaken(speakers, id, next);
+  if (!next || taken) {
+    if (taken) {
+      setStatus(t('status.speakerNameTaken', { name: next }), true);
+    }
+    renderSpeakerNames();
+    return;
+  }
+  currentTranscript.speakers = { ...currentTranscript.speakers, [id]: next };
+  currentTranscript.text = replaceSpeakerLabel(
+    currentTranscript.text,
+    previous,
+    next,
+  );
+  recordEditStep();
+  editSteps = editSteps.map((text) =>
+    replaceSpeakerLabel(text, previous, next),
+  );
+  transcriptArea.value = editSteps[editIndex];
+  scheduleEditSave();
+  renderEditState();
+  renderSpeakerNames();
+};
+
+const renderSpeakerNames = () => {
+  const speakers = Object.entries(currentTranscript?.speakers ?? {});
+  speakerNames.classList.toggle('active', speakers.length > 0);
+  speakerNameList.replaceChildren(
+    ...speakers.map(([id, name]) => {
+      const input = document.createElement('input');
+      input.type = 'text';
+      input.value = name;
+      input.setAttribute('aria-label', t('result.renameSpeaker', { name }));
+      input.addEventListener('change', () => renameSpeaker(id, input.value));
+      return input;
+    }),
+  );
+};
+
+exportButton.addEventListener('click', async () => {
+  if (!currentTranscript) {
+    return;
+  }
+  try {
+    const result = await window.micscribe.exportTranscript({
+      // Edits go into the text; subtitle timings keep the transcribed
+      // segments.
+      transcript: { ...currentTranscript, text: transcriptArea.value },
+      format: exportFormatSelect.value as ExportFormat,
+    });
+    if (result.saved) {
+      setStatus(t('status.exported', { path: result.filePath }));
+    }
+  } catch (error) {
+    handleError(error);
+  }
+});
+
+// Rewrite
+const REWRITE_MODE_LABELS: Record<BuiltinRewriteMode, MessageKey> = {
+  clean: 'rewrite.modeClean',
+  grammar: 'rewrite.modeGrammar',
+  summary: 'rewrite.modeSummary',
+  bullets: 'rewrite.modeBullets',
+  email: 'rewrite.modeEmail',
+};
+
+let customRewriteModes: CustomRewriteMode[] = [];
+// Text before the last rewrite; later rewrites start from it again.
+let rewriteSourceText: string | null = null;
+
+const hideRewriteComparison = () => {
+  rewriteSourceText = null;
+  rewriteOriginal.textContent = '';
+  rewriteCompare.classList.remove('active');
+};
+
+const renderRewriteModes = () => {
+  const options = [
+    ...BUILTIN_REWRITE_MODES.map((mode) => ({
+      value: mode,
+      label: t(REWRITE_MODE_LABELS[mode]),
+    })),
+    ...customRewriteModes.map((mode) => ({
+      value: mode.id,
+      label: mode.name.trim() || t('rewrite.untitled'),
+    })),
+  ];
+  rewriteModeSelect.replaceChildren(
+    ...options.map(({ value, label }) => {
+      const option = document.createElement('option');
+      option.value = value;
+      option.textContent = label;
+      return option;
+    }),
+  );
+  rewriteModeSelect.value = settings.rewriteMode || 'clean';
+};
+
+rewriteModeSelect.addEventListener('change', async () => {
+  settings = await saveSettings({
+    rewriteMode: rewriteModeSelect.value,
+  });
+});
+
+rewriteButton.addEventListener('click', async () => {
+  const source = rewriteSourceText ?? transcriptArea.value;
+  if (!source.trim()) {
+    return;
+  }
+  rewriteButton.disabled = true;
+  setStatus(t('rewrite.running'));
+  try {
+    const result = await window.micscribe.rewriteTranscript({
+      text: source,
+      mode: rewriteModeSelect.value,
+    });
+    rewriteSourceText = source;
+    rewriteOriginal.textContent = source;
+    rewriteCompare.classList.add('active');
+    recordEditStep();
+    transcriptArea.value = result.text;
+    recordEditStep();
+    setStatus(t('rewrite.done'));
+  } catch (error) {
+    handleError(error);
+  } finally {
+    rewriteButton.disabled = false;
+  }
+});
+
+rewriteRevertButton.addEventListener('click', () => {
+  if (rewriteSourceText !== null) {
+    recordEditStep();
+    transcriptArea.value = rewriteSourceText;
+    recordEditStep();
+  }
+  hideRewriteComparison();
+});
+
+const saveCustomRewriteModes = async () => {
+  settings = await saveSettings({ customRewriteModes });
+  renderRewriteModes();
+};
+
+const createRewriteTemplateItem = (mode: CustomRewriteMode, index: number) => {
+  const item = document.createElement('li');
+  item.className = 'rewrite-template-item';
+
+  const name = document.createElement('input');
+  name.type = 'text';
+  name.value = mode.name;
+  name.placeholder = t('settings.rewriteName');
+  name.addEventListener('change', () => {
+    mode.name = name.value;
+    void saveCustomRewriteModes();
+  });
+
+  const prompt = document.createElement('textarea');
+  prompt.className = 'settings-textarea';
+  prompt.value = mode.prompt;
+  prompt.placeholder = t('settings.rewritePrompt');
+  prompt.addEventListener('change', () => {
+    mode.prompt = prompt.value;
+    void saveCustomRewriteModes();
+  });
+
+  const remove = document.createElement('button');
+  remove.type = 'button';
+  remove.className = 'btn-ghost';
+  remove.textContent = t('common.remove');
+  remove.addEventListener('click', () => {
+    customRewriteModes.splice(index, 1);
+    renderRewriteTemplates();
+    void saveCustomRewriteModes();
+  });
+
+  item.append(name, prompt, remove);
+  return item;
+};
+
+const renderRewriteTemplates = () => {
+  rewriteTemplateList.replaceChildren(
+    ...customRewriteModes.map(createRewriteTemplateItem),
+  );
+};
+
+addRewriteTemplateButton.addEventListener('click', () => {
+  customRewriteModes.push({ id: crypto.randomUUID(), name: '', prompt: '' });
+  renderRewriteTemplates();
+  rewriteTemplateList
+    .querySelector<HTMLInputElement>('li:last-child input')
+    ?.focus();
+});
+
+rewriteModelInput.addEventListener('change', async () => {
+  settings = await saveSettings({
+    rewriteModel: rewriteModelInput.value,
+  });
+  rewriteModelInput.value = settings.rewriteModel || '';
+});
 
 // Settings Button
 settingsButton.addEventListener('click', () => {
   openModal(settingsModal);
+  void refreshPostProcessingPreview();
+});
+
+historyButton.addEventListener('click', () => {
+  openModal(historyModal);
+  void refreshHistory();
 });
 
 showResultButton.addEventListener('click', () => {
@@ -114,7 +925,17 @@ recordAgainButton.addEventListener('click', () => {
   startRecording();
 });
 
+pauseRecordButton.addEventListener('click', () => {
+  togglePause();
+});
+
 cancelRecordButton.addEventListener('click', () => {
+  // Live windows run as jobs while recording; cancelling then discards.
+  if (activeJob && isTranscribing) {
+    cancelRequested = true;
+    void window.micscribe.cancelTranscription(activeJob.id);
+    return;
+  }
   if (!isRecording) {
     return;
   }
@@ -144,7 +965,7 @@ const applyTheme = (theme: 'light' | 'dark') => {
 const updateTheme = async (theme: Theme) => {
   const effectiveTheme = getEffectiveTheme(theme);
   applyTheme(effectiveTheme);
-  settings = await window.micscribe.setSettings({ theme });
+  settings = await saveSettings({ theme });
 };
 
 const toggleTheme = async () => {
@@ -165,10 +986,177 @@ themeToggle.addEventListener('click', () => {
   toggleTheme();
 });
 
-// Token Status
-const updateTokenStatus = (hasToken: boolean) => {
-  tokenStatus.textContent = hasToken ? 'Gespeichert' : 'Nicht gesetzt';
-  tokenStatus.classList.toggle('success', hasToken);
+// API Keys
+type KeyPanel = {
+  status: HTMLSpanElement;
+  select: HTMLSelectElement;
+  removeButton: HTMLButtonElement;
+  nameInput: HTMLInputElement;
+  valueInput: HTMLInputElement;
+  testButton: HTMLButtonElement;
+  saveButton: HTMLButtonElement;
+};
+
+const keyPanels: Record<ProviderId, KeyPanel> = {
+  replicate: {
+    status: tokenStatus,
+    select: replicateKeySelect,
+    removeButton: clearTokenButton,
+    nameInput: replicateKeyNameInput,
+    valueInput: apiTokenInput,
+    testButton: testTokenButton,
+    saveButton: saveTokenButton,
+  },
+  'openai-compatible': {
+    status: openaiKeyStatus,
+    select: openaiKeySelect,
+    removeButton: clearOpenaiKeyButton,
+    nameInput: openaiKeyNameInput,
+    valueInput: openaiKeyInput,
+    testButton: testOpenaiKeyButton,
+    saveButton: saveOpenaiKeyButton,
+  },
+};
+
+let keyState: KeyState = { keys: [], encryptionAvailable: true };
+
+const renderKeys = () => {
+  keyEncryptionWarning.style.display = keyState.encryptionAvailable
+    ? 'none'
+    : '';
+  for (const provider of Object.keys(keyPanels) as ProviderId[]) {
+    const panel = keyPanels[provider];
+    const keys = keyState.keys.filter((key) => key.provider === provider);
+    const hasKey = keys.some((key) => key.active);
+    panel.status.textContent = t(hasKey ? 'common.saved' : 'common.notSet');
+    panel.status.classList.toggle('success', hasKey);
+
+    panel.select.innerHTML = '';
+    if (keys.length === 0) {
+      const option = document.createElement('option');
+      option.value = '';
+      option.textContent = t('settings.keyNone');
+      panel.select.append(option);
+    }
+    for (const key of keys) {
+      const option = document.createElement('option');
+      option.value = key.id;
+      option.textContent = [
+        key.name,
+        key.hint ? `…${key.hint}` : '',
+        key.encrypted ? '' : t('settings.keyUnencrypted'),
+      ]
+        .filter(Boolean)
+        .join(' · ');
+      option.selected = key.active;
+      panel.select.append(option);
+    }
+    panel.select.disabled = keys.length === 0;
+    panel.removeButton.disabled = keys.length === 0;
+  }
+};
+
+const showKeyTestResult = (result: KeyTestResult) => {
+  if (result === 'invalid') {
+    setErrorStatus(t('status.keyInvalid'));
+    return;
+  }
+  setStatus(t(result === 'valid' ? 'status.keyValid' : 'status.keyUnverified'));
+};
+
+const setupKeyPanel = (provider: ProviderId) => {
+  const panel = keyPanels[provider];
+
+  panel.select.addEventListener('change', async () => {
+    try {
+      keyState = await window.micscribe.activateKey(
+        provider,
+        panel.select.value,
+      );
+      renderKeys();
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+  // Without a typed key the selected stored key is tested.
+  panel.testButton.addEventListener('click', async () => {
+    const value = panel.valueInput.value.trim();
+    const id = panel.select.value;
+    if (!value && !id) {
+      setErrorStatus(t('error.apiKeyMissing'));
+      return;
+    }
+    panel.testButton.disabled = true;
+    setStatus(t('status.keyTesting'));
+    try {
+      showKeyTestResult(
+        await window.micscribe.testKey(
+          value ? { provider, value } : { provider, id },
+        ),
+      );
+    } catch (error) {
+      handleError(error);
+    } finally {
+      panel.testButton.disabled = false;
+    }
+  });
+
+  panel.saveButton.addEventListener('click', async () => {
+    const value = panel.valueInput.value.trim();
+    if (!value) {
+      setErrorStatus(t('error.apiKeyMissing'));
+      return;
+    }
+    panel.saveButton.disabled = true;
+    setStatus(t('status.keyTesting'));
+    try {
+      const result = await window.micscribe.addKey({
+        provider,
+        name: panel.nameInput.value,
+        value,
+      });
+      keyState = result;
+      panel.valueInput.value = '';
+      panel.nameInput.value = '';
+      renderKeys();
+      setStatus(
+        t(
+          result.test === 'valid'
+            ? 'status.apiKeySaved'
+            : 'status.apiKeySavedUnverified',
+        ),
+      );
+    } catch (error) {
+      handleError(error);
+    } finally {
+      panel.saveButton.disabled = false;
+    }
+  });
+
+  panel.removeButton.addEventListener('click', async () => {
+    const id = panel.select.value;
+    if (!id) {
+      return;
+    }
+    try {
+      keyState = await window.micscribe.deleteKey(id);
+      renderKeys();
+      setStatus(t('status.apiKeyRemoved'));
+    } catch (error) {
+      handleError(error);
+    }
+  });
+};
+
+// Provider Settings
+const updateProviderSections = (provider: ProviderId) => {
+  replicateSettings.style.display = provider === 'replicate' ? '' : 'none';
+  openaiSettings.style.display =
+    provider === 'openai-compatible' ? '' : 'none';
+  liveTranscriptionCheckbox.disabled =
+    !PROVIDER_CAPABILITIES[provider].liveTranscription;
+  diarizationCheckbox.disabled = !PROVIDER_CAPABILITIES[provider].diarization;
 };
 
 // Microphone Access
@@ -183,91 +1171,709 @@ const primeMicrophoneAccess = async () => {
     handleError(
       error instanceof Error
         ? error
-        : new Error('Mikrofonberechtigung fehlgeschlagen.'),
+        : new DOMException(t('error.micPermission'), 'NotAllowedError'),
     );
   }
 };
 
 // Status
+let statusAction: ErrorAction | null = null;
+
+const STATUS_ACTION_LABELS: Record<ErrorAction, MessageKey> = {
+  'open-settings': 'errorAction.openSettings',
+  'open-mic-privacy': 'errorAction.openMicPrivacy',
+};
+
+const showStatusAction = (action: ErrorAction | null) => {
+  statusAction = action;
+  statusActionButton.hidden = action === null;
+  if (action) {
+    statusActionButton.textContent = t(STATUS_ACTION_LABELS[action]);
+  }
+};
+
 const setStatus = (text: string, isError = false) => {
   statusLine.textContent = text;
   statusLine.dataset.state = isError ? 'error' : 'normal';
+  showStatusAction(null);
+};
+
+const setErrorStatus = (message: string) => {
+  setStatus(t('common.errorPrefix', { message }), true);
+};
+
+// Stores the updates and reports fields the main process refused; the
+// returned settings keep their previous values.
+const saveSettings = async (updates: Partial<Settings>) => {
+  const result = await window.micscribe.setSettings(updates);
+  if (result.rejected.length > 0) {
+    setErrorStatus(
+      t('error.settingsRejected', { fields: result.rejected.join(', ') }),
+    );
+  }
+  return result.settings;
 };
 
 // Record Button
+// The tray mirrors the recording state; only changes are sent.
+let reportedRecordingState: RecordingState = 'idle';
+
+const reportRecordingState = () => {
+  const state: RecordingState = isRecording
+    ? isPaused
+      ? 'paused'
+      : 'recording'
+    : isTranscribing
+      ? 'transcribing'
+      : 'idle';
+  if (state !== reportedRecordingState) {
+    reportedRecordingState = state;
+    void window.micscribe.setRecordingState(state);
+  }
+};
+
 const updateRecordButton = () => {
   const icon = recordButton.querySelector('.record-icon');
   const text = recordButton.querySelector('.record-text');
 
   if (icon && text) {
     if (isRecording) {
-      text.textContent = 'Stop';
+      text.textContent = t('record.stop');
     } else if (isTranscribing) {
-      text.textContent = 'Verarbeitung';
+      text.textContent = t('record.processing');
     } else {
-      text.textContent = 'Aufnehmen';
+      text.textContent = t('record.start');
     }
   }
 
   recordButton.disabled = isTranscribing;
+  micTestButton.disabled = isRecording || isTestingMic;
   recordButton.dataset.recording = isRecording ? 'true' : 'false';
-  cancelRecordButton.style.display = isRecording ? 'inline-flex' : 'none';
-  cancelRecordButton.disabled = !isRecording || isTranscribing;
+  const canCancelJob = isTranscribing && activeJob !== null;
+  cancelRecordButton.style.display =
+    isRecording || canCancelJob ? 'inline-flex' : 'none';
+  cancelRecordButton.disabled = canCancelJob
+    ? cancelRequested
+    : !isRecording || isTranscribing;
+  const cancelLabel = t(
+    canCancelJob ? 'record.cancelTranscription' : 'record.discard',
+  );
+  cancelRecordButton.title = cancelLabel;
+  cancelRecordButton.setAttribute('aria-label', cancelLabel);
+
+  pauseRecordButton.style.display = isRecording ? 'inline-flex' : 'none';
+  const pauseLabel = t(isPaused ? 'record.resume' : 'record.pause');
+  pauseRecordButton.title = pauseLabel;
+  pauseRecordButton.setAttribute('aria-label', pauseLabel);
+  const pauseIcon = getPauseIcon();
+  const pauseIconName = isPaused ? 'play' : 'pause';
+  if (pauseIcon && pauseIcon.getAttribute('data-lucide') !== pauseIconName) {
+    pauseIcon.setAttribute('data-lucide', pauseIconName);
+    createIcons({ icons });
+  }
+  recordingIndicator.dataset.paused = isPaused ? 'true' : 'false';
+  reportRecordingState();
+};
+
+// Transcription jobs
+const JOB_STAGE_LABELS: Record<Exclude<JobStage, 'done'>, MessageKey> = {
+  uploading: 'status.stageUploading',
+  queued: 'status.stageQueued',
+  running: 'status.stageRunning',
+};
+
+/**
+ * Runs one transcription request as the active job, so the cancel button can
+ * abort it. With `showStages` its progress replaces the status line.
+ */
+const trackJob = async <T>(
+  showStages: boolean,
+  task: (jobId: string) => Promise<T>,
+): Promise<T> => {
+  const id = crypto.randomUUID();
+  activeJob = { id, showStages };
+  updateRecordButton();
+  try {
+    return await task(id);
+  } finally {
+    if (activeJob?.id === id) {
+      activeJob = null;
+    }
+    updateRecordButton();
+  }
 };
 
+window.micscribe.onTranscriptionProgress(({ jobId, stage }) => {
+  if (stage !== 'done' && activeJob?.id === jobId && activeJob.showStages) {
+    setStatus(t(JOB_STAGE_LABELS[stage]));
+  }
+});
+
 const getPreferredMimeType = (): string | undefined => {
   const candidates = ['audio/webm;codecs=opus', 'audio/webm'];
   return candidates.find((type) => MediaRecorder.isTypeSupported(type));
 };
 
 const stopActiveStream = () => {
+  stopLevelMonitor();
   if (currentStream) {
     currentStream.getTracks().forEach((track) => track.stop());
     currentStream = null;
   }
 };
 
+// Errors
+// getUserMedia rejects with DOMExceptions that never pass the main process.
+const MEDIA_ERROR_CATEGORIES: Partial<Record<string, ErrorCategory>> = {
+  NotAllowedError: 'mic-permission',
+  SecurityError: 'mic-permission',
+  NotFoundError: 'device-disconnected',
+  NotReadableError: 'device-disconnected',
+  OverconstrainedError: 'device-disconnected',
+};
+
+const decodeError = (error: unknown): DecodedError => {
+  if (!(error instanceof Error)) {
+    return {
+      category: 'unknown',
+      queued: false,
+      message: t('common.unknownError'),
+    };
+  }
+  const mediaCategory =
+    error instanceof DOMException
+      ? MEDIA_ERROR_CATEGORIES[error.name]
+      : undefined;
+  return mediaCategory
+    ? { category: mediaCategory, queued: false, message: error.message }
+    : decodeErrorMessage(error.message);
+};
+
+// The actionable text of the category, or the plain message.
+const describeError = (error: unknown) => {
+  const decoded = decodeError(error);
+  const key = ERROR_CATEGORIES[decoded.category].message;
+  if (!key) {
+    return decoded.message;
+  }
+  return decoded.queued ? `${t(key)} ${t('error.queuedNotice')}` : t(key);
+};
+
 const handleError = (error: unknown) => {
-  const message =
-    error instanceof Error ? error.message : 'Unbekannter Fehler.';
-  setStatus(`Error: ${message}`, true);
+  const decoded = decodeError(error);
+  const { message, action } = ERROR_CATEGORIES[decoded.category];
+  if (message) {
+    setStatus(describeError(error), true);
+  } else {
+    setErrorStatus(decoded.message);
+  }
+  showStatusAction(action);
+  void window.micscribe.logError({
+    category: decoded.category,
+    message: decoded.message,
+  });
   isRecording = false;
   isTranscribing = false;
   updateRecordButton();
 };
 
-// Device Management
-const refreshDevices = async () => {
-  try {
-    if (!navigator.mediaDevices?.enumerateDevices) {
-      throw new Error('Geräteabfrage wird nicht unterstützt.');
-    }
-    const devices = await navigator.mediaDevices.enumerateDevices();
-    const inputs = devices.filter((device) => device.kind === 'audioinput');
+// History
+const formatDuration = (durationMs: number | null) => {
+  if (durationMs === null) {
+    return null;
+  }
+  const totalSeconds = Math.round(durationMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
 
-    micSelect.innerHTML = '';
+const createHistoryItem = (entry: HistoryEntry) => {
+  const item = document.createElement('li');
+  item.className = 'history-item';
+
+  const meta = document.createElement('div');
+  meta.className = 'history-meta';
+  meta.textContent = [
+    formatDateTime(entry.createdAt),
+    entry.language.toUpperCase(),
+    formatDuration(entry.durationMs),
+    entry.model,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  const text = document.createElement('p');
+  text.className = 'history-text';
+  text.textContent = entry.text;
+
+  const actions = document.createElement('div');
+  actions.className = 'history-actions';
+
+  const copy = document.createElement('button');
+  copy.className = 'btn-ghost';
+  copy.textContent = t('common.copy');
+  copy.addEventListener('click', async () => {
+    await window.micscribe.copyText(entry.text);
+    setStatus(t('status.copied'));
+  });
 
-    if (inputs.length === 0) {
-      const option = document.createElement('option');
-      option.value = '';
-      option.textContent = 'Kein Mikrofon gefunden';
-      micSelect.append(option);
-      micSelect.disabled = true;
-      return;
+  const show = document.createElement('button');
+  show.className = 'btn-ghost';
+  show.textContent = t('common.show');
+  show.addEventListener('click', () => {
+    showTranscript(
+      {
+        ...createTranscript(entry.originalText ?? entry.text, {
+          model: entry.model,
+          durationMs: entry.durationMs,
+          language: entry.language || null,
+        }),
+        ...(entry.speakers ? { speakers: entry.speakers } : {}),
+        historyId: entry.id,
+      },
+      entry.text,
+    );
+    closeModal(historyModal);
+    openModal(resultModal);
+    showResultButton.style.display = 'flex';
+  });
+
+  const remove = document.createElement('button');
+  remove.className = 'btn-ghost';
+  remove.textContent = t('common.delete');
+  remove.addEventListener('click', async () => {
+    try {
+      await window.micscribe.deleteHistoryEntry(entry.id);
+      await refreshHistory();
+    } catch (error) {
+      handleError(error);
     }
+  });
 
-    inputs.forEach((device, index) => {
-      const option = document.createElement('option');
-      option.value = device.deviceId;
-      option.textContent = device.label || `Mikrofon ${index + 1}`;
-      micSelect.append(option);
-    });
+  actions.append(show, copy, remove);
+  item.append(meta, text, actions);
+  return item;
+};
 
-    micSelect.disabled = false;
+const refreshHistory = async () => {
+  try {
+    const entries = await window.micscribe.listHistory(
+      historySearchInput.value,
+    );
+    historyList.replaceChildren(...entries.map(createHistoryItem));
+    historyEmpty.style.display = entries.length === 0 ? '' : 'none';
+    historyEmpty.textContent = historySearchInput.value.trim()
+      ? t('history.noMatches')
+      : t('history.empty');
+  } catch (error) {
+    handleError(error);
+  }
+};
 
-    const preferred =
-      settings.preferredMicDeviceId &&
-      inputs.some((device) => device.deviceId === settings.preferredMicDeviceId)
+historySearchInput.addEventListener('input', () => {
+  void refreshHistory();
+});
+
+historyClearButton.addEventListener('click', async () => {
+  if (!window.confirm(t('history.confirmClear'))) {
+    return;
+  }
+  try {
+    await window.micscribe.clearHistory();
+    await refreshHistory();
+  } catch (error) {
+    handleError(error);
+  }
+});
+
+historyKeepAudioCheckbox.addEventListener('change', async () => {
+  settings = await saveSettings({
+    historyKeepAudio: historyKeepAudioCheckbox.checked,
+  });
+});
+
+// Recordings
+const renderAudioSettings = () => {
+  audioDirectoryText.textContent = settings.audioDirectory ?? '';
+  audioMaxAgeInput.value =
+    settings.audioMaxAgeDays == null ? '' : String(settings.audioMaxAgeDays);
+  audioMaxSizeInput.value =
+    settings.audioMaxTotalMb == null ? '' : String(settings.audioMaxTotalMb);
+};
+
+chooseAudioDirectoryButton.addEventListener('click', async () => {
+  try {
+    settings = await window.micscribe.chooseAudioDirectory();
+    renderAudioSettings();
+  } catch (error) {
+    handleError(error);
+  }
+});
+
+resetAudioDirectoryButton.addEventListener('click', async () => {
+  settings = await saveSettings({ audioDirectory: null });
+  renderAudioSettings();
+});
+
+audioMaxAgeInput.addEventListener('change', async () => {
+  settings = await saveSettings({
+    audioMaxAgeDays: readOptionalNumber(audioMaxAgeInput),
+  });
+  renderAudioSettings();
+});
+
+audioMaxSizeInput.addEventListener('change', async () => {
+  settings = await saveSettings({
+    audioMaxTotalMb: readOptionalNumber(audioMaxSizeInput),
+  });
+  renderAudioSettings();
+});
+
+retranscribeButton.addEventListener('click', async () => {
+  const historyId = currentTranscript?.historyId;
+  if (!historyId || isTranscribing) {
+    return;
+  }
+  retranscribeButton.disabled = true;
+  // Edits saved later would replace the new text.
+  saveEdit();
+  setStatus(t('status.retranscribing'));
+  try {
+    const transcript = await trackJob(true, (jobId) =>
+      window.micscribe.retranscribeHistoryEntry({
+        jobId,
+        id: historyId,
+        language: retranscribeLanguageSelect.value as Language,
+        provider: retranscribeProviderSelect.value as ProviderId,
+      }),
+    );
+    showTranscript(transcript);
+    setStatus(t('status.retranscribed'));
+  } catch (error) {
+    handleError(error);
+  } finally {
+    retranscribeButton.disabled = false;
+  }
+});
+
+// Sends only the audio behind the selected passage, e.g. a part spoken in
+// another language, and puts the result in place of the selection.
+retranscribeSelectionButton.addEventListener('click', async () => {
+  const transcript = currentTranscript;
+  const audio = playbackBlob;
+  const { selectionStart, selectionEnd } = transcriptArea;
+  if (!transcript || !audio || isTranscribing) {
+    return;
+  }
+  const range =
+    selectionStart === selectionEnd
+      ? null
+      : getSelectionTimeRange({
+          segments: transcript.segments,
+          originalText: transcript.text,
+          text: transcriptArea.value,
+          selectionStart,
+          selectionEnd,
+          durationSeconds:
+            transcript.durationMs === null
+              ? null
+              : transcript.durationMs / 1000,
+        });
+  if (!range) {
+    setStatus(t('status.selectPassage'));
+    return;
+  }
+  retranscribeSelectionButton.disabled = true;
+  // The selection must stay where it is until the result replaces it.
+  transcriptArea.readOnly = true;
+  setStatus(t('status.retranscribingSelection'));
+  try {
+    const samples = await decodeToMono(audio);
+    const result = await trackJob(true, (jobId) =>
+      window.micscribe.transcribeAudio({
+        jobId,
+        audioBuffer: encodeWav(
+          samples.subarray(
+            Math.floor(range.start * TRANSCRIPTION_SAMPLE_RATE),
+            Math.ceil(range.end * TRANSCRIPTION_SAMPLE_RATE),
+          ),
+        ),
+        mimeType: 'audio/wav',
+        language: retranscribeLanguageSelect.value as Language,
+        saveToHistory: false,
+        queueOnFailure: false,
+      }),
+    );
+    if (currentTranscript !== transcript) {
+      return;
+    }
+    recordEditStep();
+    transcriptArea.setRangeText(
+      result.text,
+      selectionStart,
+      selectionEnd,
+      'select',
+    );
+    recordEditStep();
+    setStatus(
+      t('status.selectionRetranscribed', {
+        start: formatDuration(range.start * 1000),
+        end: formatDuration(range.end * 1000),
+      }),
+    );
+  } catch (error) {
+    handleError(error);
+  } finally {
+    transcriptArea.readOnly = false;
+    retranscribeSelectionButton.disabled = false;
+  }
+});
+
+// Post-processing
+let replacementRules: ReplacementRule[] = [];
+
+const refreshPostProcessingPreview = async () => {
+  try {
+    const result = await window.micscribe.previewPostProcessing({
+      text: currentTranscript
+        ? currentTranscript.rawText ?? currentTranscript.text
+        : '',
+      language: currentTranscript?.language ?? null,
+    });
+    ruleErrors.textContent = result.invalidRules
+      .map((index) => t('settings.ruleInvalid', { index: index + 1 }))
+      .join(' ');
+    postProcessingPreview.textContent = currentTranscript
+      ? result.text
+      : t('settings.previewEmpty');
+  } catch (error) {
+    handleError(error);
+  }
+};
+
+const saveReplacementRules = async () => {
+  settings = await saveSettings({ replacementRules });
+  await refreshPostProcessingPreview();
+};
+
+const createRuleButton = (label: string, title: MessageKey) => {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = 'btn-ghost';
+  button.textContent = label;
+  button.title = t(title);
+  button.setAttribute('aria-label', t(title));
+  return button;
+};
+
+const createRuleItem = (rule: ReplacementRule, index: number) => {
+  const item = document.createElement('li');
+  item.className = 'rule-item';
+
+  const find = document.createElement('input');
+  find.type = 'text';
+  find.value = rule.find;
+  find.placeholder = t('settings.ruleFind');
+  find.addEventListener('change', () => {
+    rule.find = find.value;
+    void saveReplacementRules();
+  });
+
+  const replace = document.createElement('input');
+  replace.type = 'text';
+  replace.value = rule.replace;
+  replace.placeholder = t('settings.ruleReplace');
+  replace.addEventListener('change', () => {
+    rule.replace = replace.value;
+    void saveReplacementRules();
+  });
+
+  const regexToggle = document.createElement('label');
+  regexToggle.className = 'setting-toggle';
+  const regex = document.createElement('input');
+  regex.type = 'checkbox';
+  regex.checked = rule.isRegex;
+  regex.addEventListener('change', () => {
+    rule.isRegex = regex.checked;
+    void saveReplacementRules();
+  });
+  const regexLabel = document.createElement('span');
+  regexLabel.textContent = t('settings.ruleRegex');
+  regexToggle.append(regex, regexLabel);
+
+  const moveRule = (offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= replacementRules.length) {
+      return;
+    }
+    [replacementRules[index], replacementRules[target]] = [
+      replacementRules[target],
+      replacementRules[index],
+    ];
+    renderReplacementRules();
+    void saveReplacementRules();
+  };
+
+  const up = createRuleButton('↑', 'settings.ruleMoveUp');
+  up.disabled = index === 0;
+  up.addEventListener('click', () => moveRule(-1));
+
+  const down = createRuleButton('↓', 'settings.ruleMoveDown');
+  down.disabled = index === replacementRules.length - 1;
+  down.addEventListener('click', () => moveRule(1));
+
+  const remove = createRuleButton('✕', 'common.remove');
+  remove.addEventListener('click', () => {
+    replacementRules.splice(index, 1);
+    renderReplacementRules();
+    void saveReplacementRules();
+  });
+
+  item.append(find, replace, regexToggle, up, down, remove);
+  return item;
+};
+
+const renderReplacementRules = () => {
+  ruleList.replaceChildren(...replacementRules.map(createRuleItem));
+};
+
+addRuleButton.addEventListener('click', () => {
+  replacementRules.push({ find: '', replace: '', isRegex: false });
+  renderReplacementRules();
+  ruleList.querySelector<HTMLInputElement>('li:last-child input')?.focus();
+});
+
+vocabularyInput.addEventListener('change', async () => {
+  settings = await saveSettings({
+    vocabulary: vocabularyInput.value.split('\n'),
+  });
+  vocabularyInput.value = (settings.vocabulary ?? []).join('\n');
+});
+
+voiceCommandsCheckbox.addEventListener('change', async () => {
+  settings = await saveSettings({
+    voiceCommandsEnabled: voiceCommandsCheckbox.checked,
+  });
+  await refreshPostProcessingPreview();
+});
+
+// Retry Queue
+const createQueueItem = (item: RetryQueueItem) => {
+  const element = document.createElement('li');
+  element.className = 'history-item';
+
+  const meta = document.createElement('div');
+  meta.className = 'history-meta';
+  meta.textContent = [
+    formatDateTime(item.createdAt),
+    item.language.toUpperCase(),
+    formatDuration(item.durationMs),
+    t('queue.attempts', { count: item.attempts }),
+    item.nextAttemptAt
+      ? t('queue.nextAttempt', { time: formatTime(item.nextAttemptAt) })
+      : t('queue.stopped'),
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  const error = document.createElement('p');
+  error.className = 'history-text queue-error';
+  error.textContent = item.lastError;
+
+  const actions = document.createElement('div');
+  actions.className = 'history-actions';
+
+  const retry = document.createElement('button');
+  retry.className = 'btn-ghost';
+  retry.textContent = t('queue.retry');
+  retry.addEventListener('click', async () => {
+    retry.disabled = true;
+    setStatus(t('status.queueRetrying'));
+    try {
+      await window.micscribe.retryQueueItem(item.id);
+    } catch (err) {
+      handleError(err);
+    }
+  });
+
+  const discard = document.createElement('button');
+  discard.className = 'btn-ghost';
+  discard.textContent = t('queue.discard');
+  discard.addEventListener('click', async () => {
+    if (!window.confirm(t('queue.confirmDiscard'))) {
+      return;
+    }
+    try {
+      await window.micscribe.discardQueueItem(item.id);
+    } catch (err) {
+      handleError(err);
+    }
+  });
+
+  actions.append(retry, discard);
+  element.append(meta, error, actions);
+  return element;
+};
+
+const renderRetryQueue = (items: RetryQueueItem[]) => {
+  queueButton.style.display = items.length > 0 ? 'flex' : 'none';
+  queueCount.textContent = String(items.length);
+  queueList.replaceChildren(...items.map(createQueueItem));
+  if (items.length === 0) {
+    closeModal(queueModal);
+  }
+};
+
+queueButton.addEventListener('click', () => {
+  openModal(queueModal);
+});
+
+window.micscribe.onRetryQueueChanged(renderRetryQueue);
+
+window.micscribe.onRetryCompleted((transcript) => {
+  showTranscript(transcript);
+  showResultButton.style.display = 'flex';
+  setStatus(t('status.queueCompleted'));
+});
+
+window.addEventListener('online', () => {
+  void window.micscribe.notifyOnline();
+});
+
+// Device Management
+const refreshDevices = async () => {
+  try {
+    if (!navigator.mediaDevices?.enumerateDevices) {
+      throw new Error(t('error.deviceQueryUnsupported'));
+    }
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    const inputs = devices.filter((device) => device.kind === 'audioinput');
+
+    micSelect.innerHTML = '';
+
+    if (inputs.length === 0) {
+      const option = document.createElement('option');
+      option.value = '';
+      option.textContent = t('devices.none');
+      micSelect.append(option);
+      micSelect.disabled = true;
+      return;
+    }
+
+    inputs.forEach((device, index) => {
+      const option = document.createElement('option');
+      option.value = device.deviceId;
+      option.textContent =
+        device.label || t('devices.fallbackLabel', { index: index + 1 });
+      micSelect.append(option);
+    });
+
+    micSelect.disabled = false;
+
+    const preferred =
+      settings.preferredMicDeviceId &&
+      inputs.some((device) => device.deviceId === settings.preferredMicDeviceId)
         ? settings.preferredMicDeviceId
         : null;
 
@@ -277,7 +1883,7 @@ const refreshDevices = async () => {
       micSelect.selectedIndex = 0;
       const fallbackId = micSelect.value;
       if (fallbackId) {
-        settings = await window.micscribe.setSettings({
+        settings = await saveSettings({
           preferredMicDeviceId: fallbackId,
         });
       }
@@ -287,32 +1893,553 @@ const refreshDevices = async () => {
   }
 };
 
+// Recording Feedback
+// Without any input above the threshold for this long, the wrong microphone
+// is probably selected.
+const NO_SIGNAL_WARNING_MS = 4000;
+
+const stopLevelMonitor = () => {
+  levelMonitor?.stop();
+  levelMonitor = null;
+  recordingIndicator.classList.remove('active');
+  levelMeterFill.style.height = '0%';
+};
+
+const getRecordedMs = () =>
+  (isPaused ? pausedAt : Date.now()) - recordingStartedAt - pausedTotalMs;
+
+const startLevelMonitor = (stream: MediaStream) => {
+  let lastSoundAt = Date.now();
+  let hasHeardSound = false;
+  let warnedNoSignal = false;
+
+  recordingTimer.textContent = formatDuration(0);
+  recordingIndicator.dataset.silent = 'false';
+  recordingIndicator.classList.add('active');
+
+  levelMonitor = createLevelMonitor(stream, ({ level, db }) => {
+    const now = Date.now();
+    const elapsedMs = getRecordedMs();
+    if (isPaused) {
+      // Silence during a pause must not stop the recording after resuming.
+      lastSoundAt = now;
+      levelMeterFill.style.height = '0%';
+      recordingIndicator.dataset.silent = 'false';
+      window.micscribe.sendRecordingLevel({
+        level: 0,
+        elapsedMs,
+        silent: false,
+      });
+      return;
+    }
+    levelMeterFill.style.height = `${Math.round(level * 100)}%`;
+    recordingTimer.textContent = formatDuration(elapsedMs);
+
+    if (db > SILENCE_THRESHOLD_DB) {
+      lastSoundAt = now;
+      hasHeardSound = true;
+      if (warnedNoSignal) {
+        warnedNoSignal = false;
+        setStatus(t('status.recording'));
+      }
+    }
+    const silent = now - lastSoundAt > 1500;
+    recordingIndicator.dataset.silent = silent ? 'true' : 'false';
+    window.micscribe.sendRecordingLevel({ level, elapsedMs, silent });
+
+    if (
+      !hasHeardSound &&
+      !warnedNoSignal &&
+      elapsedMs > NO_SIGNAL_WARNING_MS
+    ) {
+      warnedNoSignal = true;
+      setStatus(t('status.noSignal'), true);
+    }
+
+    if (
+      settings.silenceAutoStopSeconds &&
+      now - lastSoundAt >= settings.silenceAutoStopSeconds * 1000
+    ) {
+      setStatus(t('status.silenceStop'));
+      stopRecording();
+      return;
+    }
+
+    if (
+      settings.maxRecordingSeconds &&
+      elapsedMs >= settings.maxRecordingSeconds * 1000
+    ) {
+      setStatus(t('status.maxDuration'));
+      stopRecording();
+    }
+  });
+};
+
+// Empty number fields switch a limit off.
+const readOptionalNumber = (input: HTMLInputElement) =>
+  input.value.trim() === '' ? null : Number(input.value);
+
+silenceAutoStopInput.addEventListener('change', async () => {
+  settings = await saveSettings({
+    silenceAutoStopSeconds: readOptionalNumber(silenceAutoStopInput),
+  });
+  silenceAutoStopInput.value = String(settings.silenceAutoStopSeconds ?? '');
+});
+
+maxRecordingInput.addEventListener('change', async () => {
+  settings = await saveSettings({
+    maxRecordingSeconds: readOptionalNumber(maxRecordingInput),
+  });
+  maxRecordingInput.value = String(settings.maxRecordingSeconds ?? '');
+});
+
+transcriptionTimeoutInput.addEventListener('change', async () => {
+  settings = await saveSettings({
+    transcriptionTimeoutSeconds: readOptionalNumber(transcriptionTimeoutInput),
+  });
+  transcriptionTimeoutInput.value = String(
+    settings.transcriptionTimeoutSeconds ?? '',
+  );
+});
+
+liveTranscriptionCheckbox.addEventListener('change', async () => {
+  settings = await saveSettings({
+    liveTranscription: liveTranscriptionCheckbox.checked,
+  });
+});
+
+// Diarization needs the whole recording in one request: speaker ids of
+// separately transcribed pieces would not match.
+const isDiarizing = () =>
+  settings.diarizationEnabled &&
+  PROVIDER_CAPABILITIES[settings.transcriptionProvider].diarization;
+
+diarizationCheckbox.addEventListener('change', async () => {
+  settings = await saveSettings({
+    diarizationEnabled: diarizationCheckbox.checked,
+  });
+});
+
+// Live transcription
+const canTranscribeLive = () =>
+  settings.liveTranscription &&
+  PROVIDER_CAPABILITIES[settings.transcriptionProvider].liveTranscription &&
+  !isDiarizing();
+
+const showLiveTranscript = (text: string) => {
+  liveTranscriptText.textContent = text;
+  liveTranscriptText.classList.toggle('active', Boolean(text));
+};
+
+// Windows are neither saved nor queued on their own; the finished recording
+// is, like any other. The last window runs after the recording stopped, so
+// from then on it shows its stages and can be cancelled.
+const startLiveTranscriber = (
+  stream: MediaStream,
+  mimeType: string | undefined,
+  language: Language,
+) =>
+  createLiveTranscriber({
+    stream,
+    mimeType,
+    transcribe: (audioBuffer) =>
+      trackJob(isTranscribing, (jobId) =>
+        window.micscribe.transcribeAudio({
+          jobId,
+          audioBuffer,
+          mimeType: 'audio/wav',
+          language,
+          saveToHistory: false,
+          queueOnFailure: false,
+        }),
+      ),
+    onPartial: showLiveTranscript,
+  });
+
+// Long Recordings
+const MAX_SEGMENT_ATTEMPTS = 2;
+
+const transcribeSegment = async (
+  segment: AudioSegment,
+  language: Language,
+): Promise<Transcript> => {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await trackJob(false, (jobId) =>
+        window.micscribe.transcribeAudio({
+          jobId,
+          audioBuffer: segment.audioBuffer,
+          mimeType: 'audio/wav',
+          language,
+          saveToHistory: false,
+          queueOnFailure: false,
+        }),
+      );
+    } catch (error) {
+      if (attempt >= MAX_SEGMENT_ATTEMPTS || cancelRequested) {
+        throw error;
+      }
+    }
+  }
+};
+
+// Joins the transcripts of consecutive pieces of `blob` and saves the result
+// with the whole recording in the history.
+const saveStitchedTranscript = async (
+  results: Transcript[],
+  blob: Blob,
+  language: Language,
+  durationMs: number,
+) => {
+  // The raw texts are joined and post-processed once, so voice commands and
+  // rules also apply across segment boundaries.
+  const rawText = stitchTranscripts(
+    results.map((result) => result.rawText ?? result.text),
+  );
+  const text = await window.micscribe.postProcessText({
+    text: rawText,
+    language: results[0].language,
+  });
+  // Stitched text has no reliable per-segment timing, so it is estimated.
+  const transcript = createTranscript(text, {
+    model: results[0].model,
+    durationMs,
+    language: results[0].language,
+  });
+  transcript.rawText = rawText;
+  transcript.languageDetected = results[0].languageDetected;
+  transcript.historyId = await window.micscribe.addHistoryEntry({
+    text: transcript.text,
+    language: transcript.language ?? language,
+    durationMs,
+    audioBuffer: await blob.arrayBuffer(),
+    mimeType: blob.type,
+  });
+  return transcript;
+};
+
+const transcribeInSegments = async (
+  blob: Blob,
+  language: Language,
+  durationMs: number,
+) => {
+  setStatus(t('status.splitting'));
+  const samples = await decodeToMono(blob);
+  const segments = splitIntoSegments(
+    samples,
+    settings.chunkLengthSeconds ?? 60,
+  );
+
+  // A failing segment only leaves a gap instead of losing the whole recording.
+  const results: Transcript[] = [];
+  let failedSegments = 0;
+  let lastError: unknown = null;
+  for (const segment of segments) {
+    if (cancelRequested) {
+      throw new Error(t('error.transcriptionCancelled'));
+    }
+    setStatus(
+      t('status.segmentProgress', {
+        current: segment.index + 1,
+        total: segments.length,
+      }),
+    );
+    try {
+      results.push(await transcribeSegment(segment, language));
+    } catch (error) {
+      console.error(`Segment ${segment.index + 1} failed:`, error);
+      failedSegments += 1;
+      lastError = error;
+    }
+  }
+
+  if (failedSegments === segments.length) {
+    const decoded = decodeError(lastError);
+    await window.micscribe.queueRecording({
+      audioBuffer: await blob.arrayBuffer(),
+      mimeType: blob.type,
+      language,
+      durationMs,
+      error: decoded.message,
+    });
+    throw new Error(
+      encodeErrorMessage({
+        ...decoded,
+        queued: true,
+        message: `${decoded.message} ${t('error.queuedNotice')}`,
+      }),
+    );
+  }
+
+  const transcript = await saveStitchedTranscript(
+    results,
+    blob,
+    language,
+    durationMs,
+  );
+  return { transcript, failedSegments, totalSegments: segments.length };
+};
+
+chunkingCheckbox.addEventListener('change', async () => {
+  settings = await saveSettings({
+    chunkingEnabled: chunkingCheckbox.checked,
+  });
+});
+
+chunkThresholdInput.addEventListener('change', async () => {
+  settings = await saveSettings({
+    chunkThresholdSeconds: Number(chunkThresholdInput.value),
+  });
+  chunkThresholdInput.value = String(settings.chunkThresholdSeconds ?? '');
+});
+
+chunkLengthInput.addEventListener('change', async () => {
+  settings = await saveSettings({
+    chunkLengthSeconds: Number(chunkLengthInput.value),
+  });
+  chunkLengthInput.value = String(settings.chunkLengthSeconds ?? '');
+});
+
+// File Import
+type FileJobState = 'queued' | 'running' | 'done' | 'error';
+
+type FileJob = {
+  id: number;
+  // Id of the transcription job while the file is running.
+  jobId: string | null;
+  name: string;
+  filePath: string;
+  state: FileJobState;
+  transcript: Transcript | null;
+  error: string | null;
+};
+
+const FILE_STATE_LABELS: Record<FileJobState, MessageKey> = {
+  queued: 'files.queued',
+  running: 'files.running',
+  done: 'files.done',
+  error: 'files.error',
+};
+
+let fileJobs: FileJob[] = [];
+let nextFileJobId = 1;
+let isProcessingFiles = false;
+
+const getFileName = (filePath: string) =>
+  filePath.split(/[\\/]/).pop() || filePath;
+
+const isSupportedFile = (filePath: string) =>
+  SUPPORTED_EXTENSIONS.includes(
+    filePath.split('.').pop()?.toLowerCase() ?? '',
+  );
+
+const createFileQueueItem = (job: FileJob) => {
+  const item = document.createElement('li');
+  item.className = 'file-queue-item';
+  item.dataset.state = job.state;
+
+  const name = document.createElement('span');
+  name.className = 'file-queue-name';
+  name.textContent = job.name;
+  name.title = job.filePath;
+
+  const state = document.createElement('span');
+  state.className = 'file-queue-state';
+  state.textContent = t(FILE_STATE_LABELS[job.state]);
+  if (job.error) {
+    state.title = job.error;
+  }
+
+  item.append(name, state);
+
+  if (job.state === 'running' && job.jobId) {
+    const jobId = job.jobId;
+    const cancel = document.createElement('button');
+    cancel.className = 'btn-ghost';
+    cancel.textContent = t('common.cancel');
+    cancel.addEventListener('click', () => {
+      cancel.disabled = true;
+      void window.micscribe.cancelTranscription(jobId);
+    });
+    item.append(cancel);
+  }
+
+  if (job.state === 'done') {
+    const show = document.createElement('button');
+    show.className = 'btn-ghost';
+    show.textContent = t('common.show');
+    show.addEventListener('click', () => {
+      if (job.transcript) {
+        showTranscript(job.transcript);
+      }
+      openModal(resultModal);
+    });
+    item.append(show);
+  }
+
+  if (job.state === 'done' || job.state === 'error') {
+    const remove = document.createElement('button');
+    remove.className = 'btn-ghost';
+    remove.textContent = t('common.remove');
+    remove.addEventListener('click', () => {
+      fileJobs = fileJobs.filter((entry) => entry.id !== job.id);
+      renderFileQueue();
+    });
+    item.append(remove);
+  }
+
+  return item;
+};
+
+const renderFileQueue = () => {
+  fileQueueList.replaceChildren(...fileJobs.map(createFileQueueItem));
+};
+
+const processFileQueue = async () => {
+  if (isProcessingFiles) {
+    return;
+  }
+  isProcessingFiles = true;
+
+  try {
+    let job = fileJobs.find((entry) => entry.state === 'queued');
+    while (job) {
+      job.state = 'running';
+      job.jobId = crypto.randomUUID();
+      renderFileQueue();
+      try {
+        job.transcript = await window.micscribe.transcribeFile({
+          jobId: job.jobId,
+          filePath: job.filePath,
+          language: languageSelect.value as Language,
+        });
+        job.state = 'done';
+      } catch (error) {
+        job.state = 'error';
+        job.error = describeError(error);
+      }
+      job.jobId = null;
+      renderFileQueue();
+      job = fileJobs.find((entry) => entry.state === 'queued');
+    }
+  } finally {
+    isProcessingFiles = false;
+  }
+
+  const failed = fileJobs.filter((entry) => entry.state === 'error').length;
+  setStatus(
+    failed > 0
+      ? t('status.filesFailed', { count: failed })
+      : t('status.filesDone'),
+    failed > 0,
+  );
+};
+
+const enqueueFiles = (filePaths: string[]) => {
+  const supported = filePaths.filter(isSupportedFile);
+  if (supported.length < filePaths.length) {
+    setErrorStatus(t('status.unsupportedFilesSkipped'));
+  }
+  if (supported.length === 0) {
+    return;
+  }
+
+  fileJobs.push(
+    ...supported.map(
+      (filePath): FileJob => ({
+        id: nextFileJobId++,
+        jobId: null,
+        name: getFileName(filePath),
+        filePath,
+        state: 'queued',
+        transcript: null,
+        error: null,
+      }),
+    ),
+  );
+  renderFileQueue();
+  void processFileQueue();
+};
+
+openFileButton.addEventListener('click', async () => {
+  try {
+    enqueueFiles(await window.micscribe.openAudioFiles());
+  } catch (error) {
+    handleError(error);
+  }
+});
+
+const hasDraggedFiles = (event: DragEvent) =>
+  Boolean(event.dataTransfer?.types.includes('Files'));
+
+document.addEventListener('dragover', (event) => {
+  if (!hasDraggedFiles(event)) {
+    return;
+  }
+  event.preventDefault();
+  dropOverlay.classList.add('active');
+});
+
+document.addEventListener('dragleave', (event) => {
+  // relatedTarget is null once the pointer leaves the window.
+  if (!event.relatedTarget) {
+    dropOverlay.classList.remove('active');
+  }
+});
+
+document.addEventListener('drop', (event) => {
+  event.preventDefault();
+  dropOverlay.classList.remove('active');
+  const files = Array.from(event.dataTransfer?.files ?? []);
+  enqueueFiles(files.map((file) => window.micscribe.getPathForFile(file)));
+});
+
 // Recording
-const startRecording = async () => {
+// Also answers an API caller waiting for the recording to start.
+const failRecordingStart = (error: unknown) => {
+  handleError(error);
+  void window.micscribe.sendRecordingResult({ error: describeError(error) });
+};
+
+const startRecording = async (viaHotkey = false) => {
   if (isRecording || isTranscribing) {
     return;
   }
 
   discardOnStop = false;
+  stopError = null;
+  startedByHotkey = viaHotkey;
 
   if (!navigator.mediaDevices?.getUserMedia) {
-    handleError(new Error('Audioaufnahme wird nicht unterstützt.'));
+    failRecordingStart(new Error(t('error.recordingUnsupported')));
     return;
   }
 
   if (typeof MediaRecorder === 'undefined') {
-    handleError(new Error('MediaRecorder wird nicht unterstützt.'));
+    failRecordingStart(new Error(t('error.mediaRecorderUnsupported')));
     return;
   }
 
-  const deviceId = micSelect.value;
-  const constraints: MediaStreamConstraints = deviceId
-    ? { audio: { deviceId: { exact: deviceId } } }
-    : { audio: true };
+  const constraints: MediaStreamConstraints = {
+    audio: getAudioConstraints(micSelect.value, settings),
+  };
 
   try {
     const stream = await navigator.mediaDevices.getUserMedia(constraints);
     currentStream = stream;
+    // Unplugged mid-recording: keep what was recorded and say why it stopped.
+    stream.getAudioTracks().forEach((track) => {
+      track.addEventListener('ended', () => {
+        if (!isRecording || currentStream !== stream) {
+          return;
+        }
+        stopError = new DOMException(
+          t('error.deviceDisconnected'),
+          'NotFoundError',
+        );
+        stopRecording();
+      });
+    });
 
     const mimeType = getPreferredMimeType();
     mediaRecorder = new MediaRecorder(
@@ -321,70 +2448,318 @@ const startRecording = async () => {
     );
 
     chunks = [];
+    liveTranscriber = canTranscribeLive()
+      ? startLiveTranscriber(
+          stream,
+          mimeType,
+          languageSelect.value as Language,
+        )
+      : null;
     mediaRecorder.ondataavailable = (event) => {
       if (event.data.size > 0) {
         chunks.push(event.data);
+        liveTranscriber?.update();
       }
     };
 
     mediaRecorder.onstop = async () => {
+      const durationMs = getRecordedMs();
+      const live = liveTranscriber;
+      liveTranscriber = null;
       try {
         stopActiveStream();
         isRecording = false;
+        isPaused = false;
         if (discardOnStop) {
           discardOnStop = false;
-          setStatus('Aufnahme verworfen.');
+          live?.cancel();
+          if (activeJob) {
+            void window.micscribe.cancelTranscription(activeJob.id);
+          }
+          showLiveTranscript('');
+          setStatus(t('status.discarded'));
           updateRecordButton();
           return;
         }
         isTranscribing = true;
+        cancelRequested = false;
         updateRecordButton();
-        setStatus('Wird transkribiert...');
+        setStatus(t('status.transcribing'));
 
         const blob = new Blob(chunks, {
           type: mediaRecorder?.mimeType || 'audio/webm',
         });
-        const audioBuffer = await blob.arrayBuffer();
         const language = languageSelect.value as Language;
+        const useSegments =
+          settings.chunkingEnabled &&
+          !isDiarizing() &&
+          durationMs > (settings.chunkThresholdSeconds ?? 180) * 1000;
+
+        // Live windows already cover the recording; only the rest is sent.
+        const liveResults = live ? await live.finish() : null;
+        showLiveTranscript('');
+        if (cancelRequested) {
+          throw new Error(t('error.transcriptionCancelled'));
+        }
 
-        const transcript = await window.micscribe.transcribeAudio({
-          audioBuffer,
-          mimeType: blob.type,
-          language,
-        });
+        let transcript: Transcript;
+        let warning: string | null = null;
+        if (liveResults) {
+          transcript = await saveStitchedTranscript(
+            liveResults,
+            blob,
+            language,
+            durationMs,
+          );
+        } else if (useSegments) {
+          const result = await transcribeInSegments(blob, language, durationMs);
+          transcript = result.transcript;
+          if (result.failedSegments > 0) {
+            warning = t('status.segmentsFailed', {
+              failed: result.failedSegments,
+              total: result.totalSegments,
+            });
+          }
+        } else {
+          const audioBuffer = await blob.arrayBuffer();
+          transcript = await trackJob(true, (jobId) =>
+            window.micscribe.transcribeAudio({
+              jobId,
+              audioBuffer,
+              mimeType: blob.type,
+              language,
+              durationMs,
+            }),
+          );
+        }
 
-        transcriptArea.value = transcript || '';
-        setStatus('Bereit zum Aufnehmen');
+        showTranscript(transcript);
+        if (stopError) {
+          handleError(stopError);
+        } else {
+          setStatus(warning ?? t('status.ready'), Boolean(warning));
+        }
+        void window.micscribe.sendRecordingResult({ text: transcript.text });
+
+        if (startedByHotkey && transcript.text) {
+          await deliverHotkeyResult(transcript.text);
+        }
 
         // Open result modal
         openModal(resultModal);
         // Show the result button for later access
         showResultButton.style.display = 'flex';
       } catch (error) {
+        if (cancelRequested) {
+          setStatus(t('status.transcriptionCancelled'));
+          void window.micscribe.sendRecordingResult({
+            error: t('status.transcriptionCancelled'),
+          });
+          return;
+        }
         handleError(error);
+        void window.micscribe.sendRecordingResult({
+          error: describeError(error),
+        });
       } finally {
         isTranscribing = false;
+        cancelRequested = false;
+        stopError = null;
         updateRecordButton();
       }
     };
 
-    mediaRecorder.start();
+    mediaRecorder.start(liveTranscriber ? LIVE_TIMESLICE_MS : undefined);
+    showLiveTranscript('');
+    recordingStartedAt = Date.now();
+    isPaused = false;
+    pausedTotalMs = 0;
     isRecording = true;
     updateRecordButton();
-    setStatus('Aufnahme läuft...');
+    setStatus(t('status.recording'));
+    startLevelMonitor(stream);
   } catch (error) {
-    handleError(error);
+    failRecordingStart(error);
     stopActiveStream();
   }
 };
 
 const stopRecording = () => {
-  if (!isRecording || !mediaRecorder) {
+  if (!isRecording || !mediaRecorder || mediaRecorder.state === 'inactive') {
     return;
   }
   mediaRecorder.stop();
 };
 
+// Pausing keeps everything in one recording, e.g. across a phone call.
+const togglePause = () => {
+  if (!isRecording || !mediaRecorder) {
+    return;
+  }
+  if (mediaRecorder.state === 'paused') {
+    mediaRecorder.resume();
+    liveTranscriber?.resume();
+    pausedTotalMs += Date.now() - pausedAt;
+    isPaused = false;
+    setStatus(t('status.recording'));
+  } else if (mediaRecorder.state === 'recording') {
+    mediaRecorder.pause();
+    liveTranscriber?.pause();
+    pausedAt = Date.now();
+    isPaused = true;
+    setStatus(t('status.paused'));
+  }
+  updateRecordButton();
+};
+
+// Global Hotkey
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'Space',
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  '+': 'Plus',
+};
+
+const toAccelerator = (event: KeyboardEvent): string | null => {
+  if (['Control', 'Shift', 'Alt', 'Meta'].includes(event.key)) {
+    return null;
+  }
+  const key =
+    KEY_NAMES[event.key] ??
+    (event.key.length === 1 ? event.key.toUpperCase() : event.key);
+  const modifiers = [
+    event.ctrlKey || event.metaKey ? 'CommandOrControl' : null,
+    event.altKey ? 'Alt' : null,
+    event.shiftKey ? 'Shift' : null,
+  ].filter(Boolean);
+  // Plain keys would swallow normal typing in every other app.
+  const isFunctionKey = /^F\d{1,2}$/.test(key);
+  if (modifiers.length === 0 && !isFunctionKey) {
+    return null;
+  }
+  return [...modifiers, key].join('+');
+};
+
+const updateHotkeyStatus = () => {
+  const registered = Boolean(settings.hotkeyRegistered);
+  hotkeyStatus.textContent = t(
+    registered
+      ? 'settings.hotkeyActive'
+      : settings.hotkey
+        ? 'settings.hotkeyUnavailable'
+        : 'settings.hotkeyInactive',
+  );
+  hotkeyStatus.classList.toggle('success', registered);
+  hotkeyInput.value = settings.hotkey || '';
+};
+
+const deliverHotkeyResult = async (text: string) => {
+  try {
+    if (settings.hotkeyAutoPaste) {
+      await window.micscribe.pasteText(text);
+      setStatus(t('status.pasted'));
+    } else if (settings.hotkeyAutoCopy) {
+      await window.micscribe.copyText(text);
+      setStatus(t('status.copied'));
+    }
+  } catch (error) {
+    handleError(error);
+  }
+};
+
+// Started without the hotkey's copy and paste; the caller gets the text.
+window.micscribe.onApiRecording((action) => {
+  if (action === 'start' && (isRecording || isTranscribing)) {
+    void window.micscribe.sendRecordingResult({ error: t('error.apiBusy') });
+  } else if (action === 'start') {
+    void startRecording();
+  } else if (action === 'stop' && isRecording) {
+    stopRecording();
+  }
+});
+
+window.micscribe.onHotkey((action) => {
+  if (action === 'start' || (action === 'toggle' && !isRecording)) {
+    void startRecording(true);
+  } else {
+    stopRecording();
+  }
+});
+
+hotkeyInput.addEventListener('keydown', async (event) => {
+  event.preventDefault();
+  if (event.key === 'Escape') {
+    hotkeyInput.blur();
+    return;
+  }
+  const accelerator = toAccelerator(event);
+  if (!accelerator) {
+    return;
+  }
+  settings = await saveSettings({ hotkey: accelerator });
+  updateHotkeyStatus();
+  if (!settings.hotkeyRegistered) {
+    setErrorStatus(t('status.hotkeyUnavailable', { accelerator }));
+  }
+});
+
+clearHotkeyButton.addEventListener('click', async () => {
+  settings = await saveSettings({ hotkey: null });
+  updateHotkeyStatus();
+});
+
+hotkeyModeSelect.addEventListener('change', async () => {
+  settings = await saveSettings({
+    hotkeyMode: hotkeyModeSelect.value as HotkeyMode,
+  });
+  updateHotkeyStatus();
+});
+
+hotkeyAutoCopyCheckbox.addEventListener('change', async () => {
+  settings = await saveSettings({
+    hotkeyAutoCopy: hotkeyAutoCopyCheckbox.checked,
+  });
+});
+
+hotkeyAutoPasteCheckbox.addEventListener('change', async () => {
+  settings = await saveSettings({
+    hotkeyAutoPaste: hotkeyAutoPasteCheckbox.checked,
+  });
+});
+
+// Tray
+closeToTrayCheckbox.addEventListener('change', async () => {
+  settings = await saveSettings({
+    closeToTray: closeToTrayCheckbox.checked,
+  });
+});
+
+openAtLoginCheckbox.addEventListener('change', async () => {
+  settings = await saveSettings({
+    openAtLogin: openAtLoginCheckbox.checked,
+  });
+});
+
+overlayCheckbox.addEventListener('change', async () => {
+  settings = await saveSettings({
+    overlayEnabled: overlayCheckbox.checked,
+  });
+});
+
+window.micscribe.onSettingsChanged((next) => {
+  settings = next;
+  renderLanguageOptions();
+  openAtLoginCheckbox.checked = Boolean(settings.openAtLogin);
+  overlayCheckbox.checked = Boolean(settings.overlayEnabled);
+});
+
+window.micscribe.onOpenHistory(() => {
+  openModal(historyModal);
+  void refreshHistory();
+});
+
 // Event Listeners
 recordButton.addEventListener('click', () => {
   if (isRecording) {
@@ -411,58 +2786,430 @@ copyButton.addEventListener('click', () => {
   }, 500);
 });
 
-saveTokenButton.addEventListener('click', async () => {
-  const token = apiTokenInput.value.trim();
-  if (!token) {
-    setStatus('Error: Bitte API-Key eingeben.', true);
+setupKeyPanel('replicate');
+setupKeyPanel('openai-compatible');
+
+providerSelect.addEventListener('change', async () => {
+  const value = providerSelect.value as ProviderId;
+  updateProviderSections(value);
+  settings = await saveSettings({
+    transcriptionProvider: value,
+  });
+});
+
+openaiBaseUrlInput.addEventListener('change', async () => {
+  settings = await saveSettings({
+    openaiBaseUrl: openaiBaseUrlInput.value,
+  });
+});
+
+openaiDiarizationModelInput.addEventListener('change', async () => {
+  settings = await saveSettings({
+    openaiDiarizationModel: openaiDiarizationModelInput.value,
+  });
+  openaiDiarizationModelInput.value = settings.openaiDiarizationModel || '';
+});
+
+openaiModelInput.addEventListener('change', async () => {
+  settings = await saveSettings({
+    openaiModel: openaiModelInput.value,
+  });
+  openaiModelInput.value = settings.openaiModel || '';
+});
+
+// Transcription Language
+const createLanguageOption = (value: Language, label: string) => {
+  const option = document.createElement('option');
+  option.value = value;
+  option.textContent = label;
+  return option;
+};
+
+const renderLanguageOptions = () => {
+  languageSelect.replaceChildren(
+    createLanguageOption(AUTO_LANGUAGE, t('settings.languageAuto')),
+    ...LANGUAGES.map((language) =>
+      createLanguageOption(language.code, language.name),
+    ),
+  );
+  languageSelect.value = settings.language;
+
+  // The quick switcher only offers auto-detect and the recent languages.
+  const recent = settings.recentLanguages ?? [];
+  const quickCodes =
+    settings.language === AUTO_LANGUAGE || recent.includes(settings.language)
+      ? recent
+      : [settings.language, ...recent];
+  quickLanguageSelect.replaceChildren(
+    createLanguageOption(AUTO_LANGUAGE, t('settings.languageAutoShort')),
+    ...quickCodes.map((code) =>
+      createLanguageOption(code, getLanguageName(code)),
+    ),
+  );
+  quickLanguageSelect.value = settings.language;
+
+  const retranscribeLanguage = retranscribeLanguageSelect.value;
+  retranscribeLanguageSelect.replaceChildren(
+    createLanguageOption(AUTO_LANGUAGE, t('settings.languageAuto')),
+    ...LANGUAGES.map((language) =>
+      createLanguageOption(language.code, language.name),
+    ),
+  );
+  retranscribeLanguageSelect.value = retranscribeLanguage || settings.language;
+};
+
+const setLanguage = async (language: Language) => {
+  settings = await saveSettings({ language });
+  renderLanguageOptions();
+};
+
+languageSelect.addEventListener('change', () => {
+  void setLanguage(languageSelect.value as Language);
+});
+
+quickLanguageSelect.addEventListener('change', () => {
+  void setLanguage(quickLanguageSelect.value as Language);
+});
+
+uiLanguageSelect.addEventListener('change', async () => {
+  settings = await saveSettings({
+    uiLanguage: uiLanguageSelect.value as UiLanguage,
+  });
+  applyTranslations();
+  renderLanguageOptions();
+  renderReplacementRules();
+  void refreshPostProcessingPreview();
+  renderRewriteModes();
+  renderRewriteTemplates();
+  updateRecordButton();
+  renderKeys();
+  updateHotkeyStatus();
+  if (currentTranscript) {
+    showTranscript(currentTranscript);
+  }
+  renderFileQueue();
+  renderRetryQueue(await window.micscribe.listRetryQueue());
+  await refreshDevices();
+  if (!isRecording && !isTranscribing) {
+    setStatus(t('status.ready'));
+  }
+});
+
+micSelect.addEventListener('change', async () => {
+  const value = micSelect.value || null;
+  settings = await saveSettings({
+    preferredMicDeviceId: value,
+  });
+});
+
+// Microphone processing
+const formatKilohertz = (hertz: number) =>
+  `${(hertz / 1000).toLocaleString(getLocale(getUiLanguage()))} kHz`;
+
+const renderMicSettings = () => {
+  micEchoCancellationCheckbox.checked = settings.micEchoCancellation;
+  micNoiseSuppressionCheckbox.checked = settings.micNoiseSuppression;
+  micAutoGainCheckbox.checked = settings.micAutoGainControl;
+  micChannelsSelect.value = String(settings.micChannelCount ?? '');
+  micSampleRateSelect.replaceChildren(
+    ...[null, ...MIC_SAMPLE_RATES].map((rate) => {
+      const option = document.createElement('option');
+      option.value = rate === null ? '' : String(rate);
+      option.textContent =
+        rate === null ? t('settings.micDeviceDefault') : formatKilohertz(rate);
+      return option;
+    }),
+  );
+  micSampleRateSelect.value = String(settings.micSampleRate ?? '');
+};
+
+micEchoCancellationCheckbox.addEventListener('change', async () => {
+  settings = await saveSettings({
+    micEchoCancellation: micEchoCancellationCheckbox.checked,
+  });
+});
+
+micNoiseSuppressionCheckbox.addEventListener('change', async () => {
+  settings = await saveSettings({
+    micNoiseSuppression: micNoiseSuppressionCheckbox.checked,
+  });
+});
+
+micAutoGainCheckbox.addEventListener('change', async () => {
+  settings = await saveSettings({
+    micAutoGainControl: micAutoGainCheckbox.checked,
+  });
+});
+
+micChannelsSelect.addEventListener('change', async () => {
+  settings = await saveSettings({
+    micChannelCount: micChannelsSelect.value
+      ? Number(micChannelsSelect.value)
+      : null,
+  });
+});
+
+micSampleRateSelect.addEventListener('change', async () => {
+  settings = await saveSettings({
+    micSampleRate: micSampleRateSelect.value
+      ? Number(micSampleRateSelect.value)
+      : null,
+  });
+});
+
+// Microphone test
+const MIC_TEST_MS = 5000;
+// Peaks above this are most likely clipped.
+const MIC_CLIPPING_DB = -1;
+let micTestUrl: string | null = null;
+
+const formatChannels = (count: number) =>
+  count === 1
+    ? t('settings.micMono')
+    : count === 2
+      ? t('settings.micStereo')
+      : t('settings.micChannelCount', { count });
+
+const formatDb = (db: number) =>
+  Number.isFinite(db) ? String(Math.round(db)) : '-∞';
+
+const setMicTestStatus = (text: string, isError = false) => {
+  micTestStatus.textContent = text;
+  micTestStatus.dataset.state = isError ? 'error' : 'normal';
+};
+
+const resetMicTest = () => {
+  micTestAudio.pause();
+  micTestAudio.removeAttribute('src');
+  if (micTestUrl) {
+    URL.revokeObjectURL(micTestUrl);
+    micTestUrl = null;
+  }
+  micTestLevel.style.width = '0%';
+};
+
+// Records a few seconds with the selected device and the current processing
+// settings, then plays them back.
+micTestButton.addEventListener('click', async () => {
+  if (isRecording || isTestingMic) {
     return;
   }
+  isTestingMic = true;
+  updateRecordButton();
+  resetMicTest();
+  micTest.classList.add('active');
+  setMicTestStatus(t('settings.micTestStarting'));
   try {
-    const result = await window.micscribe.setReplicateToken(token);
-    apiTokenInput.value = '';
-    updateTokenStatus(result.hasReplicateToken);
-    setStatus('API-Key gespeichert.');
+    const stream = await navigator.mediaDevices.getUserMedia({
+      audio: getAudioConstraints(micSelect.value, settings),
+    });
+    const result = await recordMicTest(stream, {
+      durationMs: MIC_TEST_MS,
+      mimeType: getPreferredMimeType(),
+      failedMessage: t('error.recordingFailed'),
+      onSample: ({ level, db }, elapsedMs) => {
+        micTestLevel.style.width = `${Math.round(level * 100)}%`;
+        setMicTestStatus(
+          t('settings.micTestRecording', {
+            seconds: Math.max(0, Math.ceil((MIC_TEST_MS - elapsedMs) / 1000)),
+            level: formatDb(db),
+          }),
+        );
+      },
+    });
+    micTestLevel.style.width = '0%';
+    const { sampleRate, channelCount } = result.trackSettings;
+    const details = [
+      sampleRate ? formatKilohertz(sampleRate) : null,
+      channelCount ? formatChannels(channelCount) : null,
+    ]
+      .filter(Boolean)
+      .join(', ');
+    if (result.peakDb <= SILENCE_THRESHOLD_DB) {
+      setMicTestStatus(t('settings.micTestSilent'), true);
+    } else if (result.peakDb >= MIC_CLIPPING_DB) {
+      setMicTestStatus(t('settings.micTestClipping', { details }), true);
+    } else {
+      setMicTestStatus(
+        t('settings.micTestResult', { peak: formatDb(result.peakDb), details }),
+      );
+    }
+    micTestUrl = URL.createObjectURL(result.blob);
+    micTestAudio.src = micTestUrl;
+    await micTestAudio.play().catch((): undefined => undefined);
+  } catch (error) {
+    resetMicTest();
+    setMicTestStatus(describeError(error), true);
+    const { category, message } = decodeError(error);
+    void window.micscribe.logError({ category, message });
+  } finally {
+    isTestingMic = false;
+    updateRecordButton();
+  }
+});
+
+// Initialization
+// Brings every settings control in line with `settings`, on startup and
+// after an import.
+const renderSettings = () => {
+  applyTranslations();
+  uiLanguageSelect.value = getUiLanguage();
+  renderLanguageOptions();
+  renderKeys();
+  providerSelect.value = settings.transcriptionProvider || 'replicate';
+  updateProviderSections(providerSelect.value as ProviderId);
+  openaiBaseUrlInput.value = settings.openaiBaseUrl || '';
+  openaiModelInput.value = settings.openaiModel || '';
+  openaiDiarizationModelInput.value = settings.openaiDiarizationModel || '';
+  diarizationCheckbox.checked = Boolean(settings.diarizationEnabled);
+  renderMicSettings();
+  historyKeepAudioCheckbox.checked = Boolean(settings.historyKeepAudio);
+  renderAudioSettings();
+  hotkeyModeSelect.value = settings.hotkeyMode || 'toggle';
+  hotkeyAutoCopyCheckbox.checked = Boolean(settings.hotkeyAutoCopy);
+  hotkeyAutoPasteCheckbox.checked = Boolean(settings.hotkeyAutoPaste);
+  closeToTrayCheckbox.checked = Boolean(settings.closeToTray);
+  openAtLoginCheckbox.checked = Boolean(settings.openAtLogin);
+  overlayCheckbox.checked = Boolean(settings.overlayEnabled);
+  updateHotkeyStatus();
+  void renderLocalApi();
+  chunkingCheckbox.checked = Boolean(settings.chunkingEnabled);
+  chunkThresholdInput.value = String(settings.chunkThresholdSeconds ?? '');
+  chunkLengthInput.value = String(settings.chunkLengthSeconds ?? '');
+  silenceAutoStopInput.value = String(settings.silenceAutoStopSeconds ?? '');
+  maxRecordingInput.value = String(settings.maxRecordingSeconds ?? '');
+  transcriptionTimeoutInput.value = String(
+    settings.transcriptionTimeoutSeconds ?? '',
+  );
+  liveTranscriptionCheckbox.checked = Boolean(settings.liveTranscription);
+  vocabularyInput.value = (settings.vocabulary ?? []).join('\n');
+  voiceCommandsCheckbox.checked = settings.voiceCommandsEnabled !== false;
+  replacementRules = (settings.replacementRules ?? []).map((rule) => ({
+    ...rule,
+  }));
+  renderReplacementRules();
+  customRewriteModes = (settings.customRewriteModes ?? []).map((mode) => ({
+    ...mode,
+  }));
+  renderRewriteModes();
+  renderRewriteTemplates();
+  rewriteModelInput.value = settings.rewriteModel || '';
+  updateRecordButton();
+  applyTheme(getEffectiveTheme(settings.theme || 'system'));
+};
+
+// Settings transfer
+exportSettingsButton.addEventListener('click', async () => {
+  try {
+    const result = await window.micscribe.exportSettings();
+    if (result.saved && result.filePath) {
+      setStatus(t('status.settingsExported', { path: result.filePath }));
+    }
   } catch (error) {
     handleError(error);
   }
 });
 
-clearTokenButton.addEventListener('click', async () => {
+importSettingsButton.addEventListener('click', async () => {
   try {
-    const result = await window.micscribe.clearReplicateToken();
-    updateTokenStatus(result.hasReplicateToken);
-    setStatus('API-Key entfernt.');
+    const result = await window.micscribe.importSettings();
+    if (!result) {
+      return;
+    }
+    settings = result.settings;
+    renderSettings();
+    void refreshPostProcessingPreview();
+    if (result.rejected.length > 0) {
+      setErrorStatus(
+        t('error.settingsRejected', { fields: result.rejected.join(', ') }),
+      );
+    } else {
+      setStatus(t('status.settingsImported'));
+    }
   } catch (error) {
     handleError(error);
   }
 });
 
-languageSelect.addEventListener('change', async () => {
-  const value = languageSelect.value as Language;
-  settings = await window.micscribe.setSettings({ language: value });
+// Local API
+const showLocalApiState = (state: ApiState) => {
+  localApiStatus.textContent =
+    state.error ??
+    (state.url ? t('settings.localApiRunning', { url: state.url }) : '');
+  localApiStatus.dataset.state = state.error ? 'error' : 'normal';
+  localApiActions.style.display = state.url ? '' : 'none';
+};
+
+const renderLocalApi = async () => {
+  localApiCheckbox.checked = Boolean(settings.apiServerEnabled);
+  localApiPortInput.value = String(settings.apiServerPort ?? '');
+  try {
+    showLocalApiState(await window.micscribe.getApiState());
+  } catch (error) {
+    handleError(error);
+  }
+};
+
+localApiCheckbox.addEventListener('change', async () => {
+  settings = await saveSettings({
+    apiServerEnabled: localApiCheckbox.checked,
+  });
+  await renderLocalApi();
 });
 
-micSelect.addEventListener('change', async () => {
-  const value = micSelect.value || null;
-  settings = await window.micscribe.setSettings({
-    preferredMicDeviceId: value,
+localApiPortInput.addEventListener('change', async () => {
+  settings = await saveSettings({
+    apiServerPort: Number(localApiPortInput.value),
   });
+  await renderLocalApi();
+});
+
+localApiCopyTokenButton.addEventListener('click', async () => {
+  try {
+    if (await window.micscribe.copyApiToken()) {
+      setStatus(t('status.apiTokenCopied'));
+    }
+  } catch (error) {
+    handleError(error);
+  }
+});
+
+localApiRenewTokenButton.addEventListener('click', async () => {
+  try {
+    showLocalApiState(await window.micscribe.renewApiToken());
+    setStatus(t('status.apiTokenRenewed'));
+  } catch (error) {
+    handleError(error);
+  }
+});
+
+copyDiagnosticsButton.addEventListener('click', async () => {
+  try {
+    await window.micscribe.copyDiagnostics();
+    setStatus(t('status.diagnosticsCopied'));
+  } catch (error) {
+    handleError(error);
+  }
+});
+
+statusActionButton.addEventListener('click', async () => {
+  if (statusAction === 'open-mic-privacy') {
+    // Without a system page the microphone selection is the next best place.
+    if (await window.micscribe.openMicPrivacySettings()) {
+      return;
+    }
+  }
+  openModal(settingsModal);
 });
 
-// Initialization
 const init = async () => {
   try {
     settings = await window.micscribe.getSettings();
-    languageSelect.value = settings.language;
-    updateTokenStatus(Boolean(settings.hasReplicateToken));
-    updateRecordButton();
-    setStatus('Bereit zum Aufnehmen');
+    keyState = await window.micscribe.listKeys();
+    renderSettings();
+    setStatus(t('status.ready'));
 
-    // Apply theme
-    const theme = settings.theme || 'system';
-    const effectiveTheme = getEffectiveTheme(theme);
-    applyTheme(effectiveTheme);
-    settings.theme = theme;
+    renderRetryQueue(await window.micscribe.listRetryQueue());
 
     await primeMicrophoneAccess();
     await refreshDevices();
@@ -0,0 +1,6 @@
+// State of the local API as shown in the settings.
+export type ApiState = {
+  // Null while the local API is off or could not start.
+  url: string | null;
+  error: string | null;
+};
@@ -0,0 +1,15 @@
+// Formats accepted for import; the providers accept all of them as uploads.
+export const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.webm': 'audio/webm',
+  '.flac': 'audio/flac',
+  '.mp4': 'video/mp4',
+};
+
+// Without the dot, as file dialogs expect them.
+export const SUPPORTED_EXTENSIONS = Object.keys(MIME_TYPES_BY_EXTENSION).map(
+  (extension) => extension.slice(1),
+);
@@ -0,0 +1,22 @@
+import type { ProviderId } from './settings';
+
+// A stored API key as the settings list it; the key itself never leaves the
+// main process.
+export type KeyInfo = {
+  id: string;
+  provider: ProviderId;
+  name: string;
+  encrypted: boolean;
+  active: boolean;
+  // Last characters of the key so entries can be told apart.
+  hint: string;
+  createdAt: string;
+};
+
+export type KeyState = {
+  keys: KeyInfo[];
+  // False where the OS offers no encryption; keys are then stored in plain.
+  encryptionAvailable: boolean;
+};
+
+export type KeyTestResult = 'valid' | 'invalid' | 'unverified';
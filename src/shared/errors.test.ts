@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { decodeErrorMessage, encodeErrorMessage } from './errors';
+
+describe('error messages', () => {
+  it('decode what was encoded', () => {
+    const error = {
+      category: 'offline' as const,
+      queued: true,
+      message: 'fetch failed',
+    };
+    expect(encodeErrorMessage(error)).toBe('[offline;queued] fetch failed');
+    expect(decodeErrorMessage(encodeErrorMessage(error))).toEqual(error);
+  });
+
+  it('strip the prefix Electron adds to errors from IPC handlers', () => {
+    expect(
+      decodeErrorMessage(
+        "Error invoking remote method 'transcribe-audio': Error: " +
+          '[token-invalid] Key rejected',
+      ),
+    ).toEqual({
+      category: 'token-invalid',
+      queued: false,
+      message: 'Key rejected',
+    });
+  });
+
+  it('keep other messages as they are', () => {
+    expect(decodeErrorMessage('Something broke')).toEqual({
+      category: 'unknown',
+      queued: false,
+      message: 'Something broke',
+    });
+    expect(decodeErrorMessage('[no-such-category] Something broke')).toEqual({
+      category: 'unknown',
+      queued: false,
+      message: '[no-such-category] Something broke',
+    });
+  });
+});
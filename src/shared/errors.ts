@@ -0,0 +1,87 @@
+import type { MessageKey } from './i18n';
+
+export type ErrorCategory =
+  | 'token-missing'
+  | 'token-invalid'
+  | 'offline'
+  | 'rate-limited'
+  | 'payload-too-large'
+  | 'unsupported-format'
+  | 'mic-permission'
+  | 'device-disconnected'
+  | 'timeout'
+  | 'cancelled'
+  | 'unknown';
+
+// What the status line offers to fix the problem.
+export type ErrorAction = 'open-settings' | 'open-mic-privacy';
+
+type ErrorCategoryInfo = {
+  // Actionable text shown instead of the raw message; null keeps the message.
+  message: MessageKey | null;
+  action: ErrorAction | null;
+};
+
+export const ERROR_CATEGORIES: Record<ErrorCategory, ErrorCategoryInfo> = {
+  'token-missing': {
+    message: 'errorCategory.tokenMissing',
+    action: 'open-settings',
+  },
+  'token-invalid': {
+    message: 'errorCategory.tokenInvalid',
+    action: 'open-settings',
+  },
+  offline: { message: 'errorCategory.offline', action: null },
+  'rate-limited': { message: 'errorCategory.rateLimited', action: null },
+  'payload-too-large': {
+    message: 'errorCategory.payloadTooLarge',
+    action: 'open-settings',
+  },
+  'unsupported-format': {
+    message: 'errorCategory.unsupportedFormat',
+    action: null,
+  },
+  'mic-permission': {
+    message: 'errorCategory.micPermission',
+    action: 'open-mic-privacy',
+  },
+  'device-disconnected': {
+    message: 'errorCategory.deviceDisconnected',
+    action: 'open-settings',
+  },
+  timeout: { message: null, action: 'open-settings' },
+  cancelled: { message: null, action: null },
+  unknown: { message: null, action: null },
+};
+
+export const isErrorCategory = (value: unknown): value is ErrorCategory =>
+  typeof value === 'string' && value in ERROR_CATEGORIES;
+
+export type DecodedError = {
+  category: ErrorCategory;
+  // The recording was put into the retry queue.
+  queued: boolean;
+  message: string;
+};
+
+// Errors thrown in ipcMain.handle reach the renderer as a bare message, so
+// category and flags travel as a prefix: "[offline;queued] fetch failed".
+export const encodeErrorMessage = (error: DecodedError) =>
+  `[${error.category}${error.queued ? ';queued' : ''}] ${error.message}`;
+
+export const decodeErrorMessage = (raw: string): DecodedError => {
+  // Electron prepends "Error invoking remote method '<channel>': Error: ".
+  const text = raw.replace(
+    /^Error invoking remote method '[^']*': (\w*Error: )?/,
+    '',
+  );
+  const match = /^\[([a-z-]+)(;queued)?\] /.exec(text);
+  if (!match || !isErrorCategory(match[1])) {
+    return { category: 'unknown', queued: false, message: text };
+  }
+  return {
+    category: match[1],
+    queued: Boolean(match[2]),
+    message: text.slice(match[0].length),
+  };
+};
@@ -0,0 +1,26 @@
+export type HistoryEntry = {
+  id: string;
+  text: string;
+  // Detected language code for auto-detect recordings, when reported.
+  language: string;
+  durationMs: number | null;
+  provider: string;
+  model: string;
+  createdAt: string;
+  // File name inside the default audio directory, or an absolute path when
+  // the recording was saved to a custom folder. Null if no audio was kept.
+  audioFile: string | null;
+  // Text as transcribed, kept once the text has been edited by hand.
+  originalText?: string;
+  // Display names by speaker id; only set for diarized transcripts.
+  speakers?: Record<string, string>;
+};
+
+// A manual edit of the shown text. Renaming speakers also changes the
+// labels in the transcribed text.
+export type HistoryTextUpdate = {
+  id: string;
+  text: string;
+  originalText?: string;
+  speakers?: Record<string, string>;
+};
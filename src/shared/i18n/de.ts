@@ -0,0 +1,392 @@
+// German is the reference catalog: its keys define MessageKey.
+export const de = {
+  'common.save': 'Speichern',
+  'common.remove': 'Entfernen',
+  'common.delete': 'Löschen',
+  'common.copy': 'Kopieren',
+  'common.close': 'Schließen',
+  'common.show': 'Anzeigen',
+  'common.cancel': 'Abbrechen',
+  'common.saved': 'Gespeichert',
+  'common.notSet': 'Nicht gesetzt',
+  'common.off': 'Aus',
+  'common.errorPrefix': 'Fehler: {message}',
+  'common.unknownError': 'Unbekannter Fehler.',
+
+  'app.settings': 'Einstellungen',
+  'app.history': 'Verlauf',
+  'app.retryQueue': 'Warteschlange fehlgeschlagener Aufnahmen',
+  'app.toggleTheme': 'Theme umschalten',
+  'app.toggleThemeHint': 'Theme umschalten (hell/dunkel)',
+  'app.showLastTranscript': 'Letztes Transkript anzeigen',
+
+  'record.start': 'Aufnehmen',
+  'record.stop': 'Stopp',
+  'record.processing': 'Verarbeitung',
+  'record.cancelTranscription': 'Transkription abbrechen',
+  'record.discard': 'Aufnahme verwerfen',
+  'record.pause': 'Aufnahme pausieren',
+  'record.resume': 'Aufnahme fortsetzen',
+  'record.openFile': 'Datei öffnen',
+  'record.dropFiles': 'Audio- oder Videodateien hier ablegen',
+
+  'status.ready': 'Bereit zum Aufnehmen',
+  'status.recording': 'Aufnahme läuft...',
+  'status.paused': 'Aufnahme pausiert. Zum Fortsetzen ▶ klicken.',
+  'status.transcribing': 'Wird transkribiert...',
+  'status.stageUploading': 'Audio wird hochgeladen...',
+  'status.stageQueued': 'Wartet auf den Transkriptionsdienst...',
+  'status.stageRunning': 'Wird transkribiert...',
+  'status.transcriptionCancelled': 'Transkription abgebrochen.',
+  'status.discarded': 'Aufnahme verworfen.',
+  'status.copied': 'Transkript kopiert.',
+  'status.pasted': 'Transkript eingefügt.',
+  'status.exported': 'Exportiert: {path}',
+  'status.speakerNameTaken': '„{name}“ heißt schon ein anderer Sprecher.',
+  'status.settingsExported': 'Einstellungen exportiert: {path}',
+  'status.settingsImported': 'Einstellungen importiert.',
+  'status.diagnosticsCopied':
+    'Diagnosedaten in die Zwischenablage kopiert. Bitte dem Fehlerbericht beifügen.',
+  'status.apiTokenCopied': 'Token der lokalen Schnittstelle kopiert.',
+  'status.apiTokenRenewed':
+    'Neuer Token erstellt. Skripte mit dem alten Token werden abgewiesen.',
+  'status.noSignal': 'Kein Signal – ist das richtige Mikrofon ausgewählt?',
+  'status.silenceStop': 'Stille erkannt – Aufnahme wird beendet.',
+  'status.maxDuration': 'Maximale Aufnahmelänge erreicht.',
+  'status.splitting': 'Aufnahme wird aufgeteilt...',
+  'status.segmentProgress': 'Segment {current}/{total} wird transkribiert...',
+  'status.segmentsFailed':
+    '{failed} von {total} Segmenten konnten nicht transkribiert werden.',
+  'status.filesDone': 'Dateien transkribiert.',
+  'status.filesFailed': '{count} Datei(en) konnten nicht transkribiert werden.',
+  'status.unsupportedFilesSkipped':
+    'Nicht unterstützte Dateien wurden übersprungen.',
+  'status.queueRetrying': 'Aufnahme aus der Warteschlange wird transkribiert...',
+  'status.queueCompleted':
+    'Eine Aufnahme aus der Warteschlange wurde transkribiert.',
+  'status.retranscribing': 'Aufnahme wird neu transkribiert...',
+  'status.retranscribed': 'Aufnahme wurde neu transkribiert.',
+  'status.selectPassage':
+    'Markiere zuerst die Stelle im Text, die neu transkribiert werden soll.',
+  'status.retranscribingSelection': 'Auswahl wird neu transkribiert...',
+  'status.selectionRetranscribed':
+    'Auswahl ({start} bis {end}) wurde neu transkribiert.',
+  'status.apiKeySaved': 'API-Key gespeichert.',
+  'status.apiKeyRemoved': 'API-Key entfernt.',
+  'status.apiKeySavedUnverified':
+    'API-Key gespeichert, konnte aber nicht geprüft werden.',
+  'status.keyTesting': 'API-Key wird geprüft...',
+  'status.keyValid': 'API-Key ist gültig.',
+  'status.keyUnverified':
+    'API-Key konnte nicht geprüft werden (Server nicht erreichbar oder ohne Prüfung).',
+  'status.keyInvalid': 'API-Key wurde vom Anbieter abgelehnt.',
+  'status.hotkeyUnavailable': 'Tastenkürzel {accelerator} ist nicht verfügbar.',
+
+  'error.micPermission': 'Mikrofonberechtigung fehlgeschlagen.',
+  'error.deviceDisconnected': 'Das Mikrofon wurde getrennt.',
+  'error.recordingUnsupported': 'Audioaufnahme wird nicht unterstützt.',
+  'error.recordingFailed': 'Die Aufnahme ist fehlgeschlagen.',
+  'error.mediaRecorderUnsupported': 'MediaRecorder wird nicht unterstützt.',
+  'error.deviceQueryUnsupported': 'Geräteabfrage wird nicht unterstützt.',
+  'error.recordingMissing':
+    'Die Aufnahme zu diesem Transkript ist nicht mehr vorhanden.',
+  'error.apiKeyMissing': 'Bitte API-Key eingeben.',
+  'error.keyRejected':
+    'Der Anbieter hat den API-Key abgelehnt. Er wurde nicht gespeichert.',
+  'error.keyProviderInvalid': 'Unbekannter Anbieter.',
+  'error.queuedNotice':
+    'Die Aufnahme wurde in der Warteschlange gespeichert und wird automatisch erneut versucht.',
+  'error.replicateTokenMissing':
+    'REPLICATE_API_TOKEN ist nicht gesetzt. Bitte als Environment-Variable setzen oder im UI speichern.',
+  'error.openaiUrlMissing':
+    'Keine Server-URL für den OpenAI-kompatiblen Anbieter gesetzt.',
+  'error.serverStatus': 'Transkriptionsserver antwortete mit {status}{detail}',
+  'error.noAudio': 'Keine Audiodaten empfangen.',
+  'error.unsupportedFile': 'Dateiformat wird nicht unterstützt.',
+  'error.apiInvalidRequest': 'Ungültige Anfrage.',
+  'error.apiForbidden': 'Anfragen aus dem Browser sind nicht erlaubt.',
+  'error.apiUnauthorized': 'Token fehlt oder ist ungültig.',
+  'error.apiNotFound': 'Unbekannter Befehl.',
+  'error.apiUnavailable': 'Das Hauptfenster ist nicht bereit.',
+  'error.apiBusy': 'Es läuft bereits eine Aufnahme oder Transkription.',
+  'error.apiNotRecording': 'Es läuft keine Aufnahme.',
+  'error.apiRecordingDiscarded': 'Die Aufnahme wurde verworfen.',
+  'error.apiFileMissing': 'Die Datei wurde nicht gefunden.',
+  'error.apiNoTranscript': 'Der Verlauf ist leer.',
+  'error.apiPortInUse':
+    'Port {port} wird bereits von einem anderen Programm verwendet.',
+  'cli.usage':
+    'Verwendung: MicScribe --cli <status|start|stop|last|transcribe <Datei>> [--language <Code>] [--json]',
+  'cli.notEnabled':
+    'Die lokale Schnittstelle ist nicht eingerichtet. Aktiviere sie in den MicScribe-Einstellungen.',
+  'cli.notRunning':
+    'MicScribe läuft nicht oder die lokale Schnittstelle ist ausgeschaltet.',
+  'error.invalidExportFormat': 'Ungültiges Exportformat.',
+  'error.settingsRejected': 'Ungültige Einstellungen ignoriert: {fields}',
+  'error.settingsFileInvalid': 'Die Datei enthält keine MicScribe-Einstellungen.',
+  'error.settingsFileNewer':
+    'Die Einstellungen stammen aus einer neueren MicScribe-Version.',
+  'error.pasteUnsupported':
+    'Automatisches Einfügen wird nur unter Windows unterstützt.',
+  'error.textServerStatus': 'Textmodell-Server antwortete mit {status}{detail}',
+  'error.rewriteEmpty': 'Kein Text zum Umschreiben.',
+  'error.rewriteUnknownMode': 'Unbekannter oder leerer Umschreib-Modus.',
+  'error.transcriptionUnknown': 'Unbekannter Fehler bei der Transkription.',
+
+  'errorCategory.tokenMissing':
+    'Kein API-Key hinterlegt. Bitte in den Einstellungen einen Key speichern.',
+  'errorCategory.tokenInvalid':
+    'Der Anbieter hat den API-Key abgelehnt. Bitte den Key in den Einstellungen prüfen.',
+  'errorCategory.offline':
+    'Keine Verbindung zum Anbieter. Bitte Internetverbindung prüfen.',
+  'errorCategory.rateLimited':
+    'Zu viele Anfragen beim Anbieter. Bitte kurz warten und erneut versuchen.',
+  'errorCategory.payloadTooLarge':
+    'Die Aufnahme ist für den Anbieter zu groß. Bitte in den Einstellungen das Aufteilen langer Aufnahmen aktivieren oder kürzere Abschnitte wählen.',
+  'errorCategory.unsupportedFormat':
+    'Der Anbieter kann dieses Audioformat nicht verarbeiten.',
+  'errorCategory.micPermission':
+    'Kein Zugriff auf das Mikrofon. Bitte den Zugriff in den Datenschutzeinstellungen des Systems erlauben.',
+  'errorCategory.deviceDisconnected':
+    'Das Mikrofon ist nicht verfügbar oder wurde getrennt. Bitte anschließen oder in den Einstellungen ein anderes wählen.',
+  'errorAction.openSettings': 'Einstellungen öffnen',
+  'errorAction.openMicPrivacy': 'Mikrofonzugriff erlauben',
+  'error.transcriptionCancelled': 'Transkription abgebrochen.',
+  'error.transcriptionTimeout':
+    'Zeitüberschreitung: Die Transkription hat länger als {seconds} Sekunden gedauert.',
+
+  'devices.none': 'Kein Mikrofon gefunden',
+  'devices.fallbackLabel': 'Mikrofon {index}',
+
+  'settings.title': 'Einstellungen',
+  'settings.uiLanguage': 'Sprache der Oberfläche',
+  'settings.language': 'Sprache der Aufnahme',
+  'settings.languageAuto': 'Automatisch erkennen',
+  'settings.languageAutoShort': 'Auto',
+  'settings.microphone': 'Mikrofon',
+  'settings.micEchoCancellation': 'Echounterdrückung',
+  'settings.micNoiseSuppression': 'Rauschunterdrückung',
+  'settings.micAutoGainControl': 'Automatische Lautstärkeanpassung',
+  'settings.micChannels': 'Kanäle',
+  'settings.micSampleRate': 'Abtastrate',
+  'settings.micDeviceDefault': 'Gerätestandard',
+  'settings.micMono': 'Mono',
+  'settings.micStereo': 'Stereo',
+  'settings.micChannelCount': '{count} Kanäle',
+  'settings.micProcessingHint':
+    'Gilt ab der nächsten Aufnahme. Kanäle und Abtastrate werden nur verwendet, wenn das Gerät sie unterstützt.',
+  'settings.micTest': 'Mikrofon testen',
+  'settings.micTestStarting': 'Mikrofon wird geöffnet...',
+  'settings.micTestRecording':
+    'Bitte sprechen – noch {seconds} s, Pegel {level} dB',
+  'settings.micTestResult':
+    'Höchster Pegel {peak} dB ({details}). Die Aufnahme wird abgespielt.',
+  'settings.micTestSilent':
+    'Kein Signal erkannt. Bitte ein anderes Mikrofon wählen oder den Eingangspegel prüfen.',
+  'settings.micTestClipping':
+    'Das Signal ist übersteuert ({details}). Bitte den Eingangspegel senken oder die automatische Lautstärkeanpassung einschalten.',
+  'settings.hotkey': 'Globales Tastenkürzel',
+  'settings.hotkeyPlaceholder': 'Tastenkombination drücken...',
+  'settings.hotkeyHint': 'Funktioniert auch, wenn MicScribe im Hintergrund ist.',
+  'settings.hotkeyActive': 'Aktiv',
+  'settings.hotkeyUnavailable': 'Nicht verfügbar',
+  'settings.hotkeyInactive': 'Nicht aktiv',
+  'settings.hotkeyMode': 'Modus',
+  'settings.hotkeyModeToggle': 'Umschalten (drücken zum Starten/Stoppen)',
+  'settings.hotkeyModeHold': 'Gedrückt halten zum Sprechen',
+  'settings.hotkeyModeHint':
+    'Gedrückt halten gibt es nur unter Windows; das Loslassen wird am Ende der Tastenwiederholung erkannt. Auf anderen Systemen schaltet das Tastenkürzel um.',
+  'settings.hotkeyAutoCopy': 'Ergebnis automatisch kopieren',
+  'settings.hotkeyAutoPaste': 'In das vorherige Fenster einfügen',
+  'settings.autoStop': 'Automatisch stoppen',
+  'settings.silenceAutoStop': 'Nach Stille (Sekunden)',
+  'settings.maxRecording': 'Maximale Länge (Sekunden)',
+  'settings.autoStopHint': 'Leer lassen, um die Funktion auszuschalten.',
+  'settings.chunking': 'Lange Aufnahmen in Segmenten transkribieren',
+  'settings.chunkingHint':
+    'Segmente überlappen sich um 2 Sekunden und werden danach zusammengefügt.',
+  'settings.chunkThreshold': 'Ab Länge (Sekunden)',
+  'settings.chunkLength': 'Segmentlänge (Sekunden)',
+  'settings.vocabulary': 'Eigenes Vokabular',
+  'settings.vocabularyPlaceholder': 'Ein Begriff pro Zeile, z. B. MicScribe',
+  'settings.vocabularyHint':
+    'Wird dem Modell als Hinweis mitgegeben, damit Namen und Fachbegriffe richtig geschrieben werden.',
+  'settings.voiceCommands':
+    'Sprachbefehle umsetzen („neue Zeile“, „neuer Absatz“, „Komma“ …)',
+  'settings.rules': 'Ersetzungsregeln',
+  'settings.rulesHint':
+    'Werden nach den Sprachbefehlen von oben nach unten angewendet. Bei Regex sind $1, $2 … im Ersatz möglich.',
+  'settings.ruleFind': 'Suchen',
+  'settings.ruleReplace': 'Ersetzen durch',
+  'settings.ruleRegex': 'Regex',
+  'settings.ruleAdd': 'Regel hinzufügen',
+  'settings.ruleMoveUp': 'Nach oben',
+  'settings.ruleMoveDown': 'Nach unten',
+  'settings.ruleInvalid': 'Regel {index}: ungültiger regulärer Ausdruck.',
+  'settings.preview': 'Vorschau mit dem letzten Transkript',
+  'settings.previewEmpty': 'Noch kein Transkript vorhanden.',
+  'settings.rewriteTemplates': 'Eigene Umschreib-Vorlagen',
+  'settings.rewriteTemplatesHint':
+    'Der Platzhalter {text} wird durch das Transkript ersetzt, sonst wird es angehängt.',
+  'settings.rewriteName': 'Name',
+  'settings.rewritePrompt': 'Anweisung an das Textmodell',
+  'settings.rewriteAdd': 'Vorlage hinzufügen',
+  'settings.rewriteModel': 'Textmodell (OpenAI-kompatibler Server)',
+  'settings.historyKeepAudio': 'Audio im Verlauf speichern',
+  'settings.historyHint': 'Transkripte werden immer lokal im Verlauf gespeichert.',
+  'settings.closeToTray': 'Beim Schließen im Infobereich weiterlaufen',
+  'settings.openAtLogin': 'Beim Anmelden starten',
+  'settings.audioDirectory': 'Speicherort der Aufnahmen',
+  'settings.audioDirectoryChoose': 'Ordner wählen',
+  'settings.audioDirectoryReset': 'Standard',
+  'settings.audioRetention': 'Aufbewahrung',
+  'settings.audioMaxAge': 'Höchstalter (Tage)',
+  'settings.audioMaxSize': 'Gesamtgröße (MB)',
+  'settings.audioRetentionHint':
+    'Wird beim Start angewendet. Ältere Aufnahmen werden gelöscht, die Transkripte bleiben im Verlauf.',
+  'settings.transfer': 'Einstellungen übertragen',
+  'settings.transcriptionTimeout': 'Zeitlimit der Transkription (Sekunden)',
+  'settings.transcriptionTimeoutHint':
+    'Leer lassen, um ohne Zeitlimit zu warten.',
+  'settings.liveTranscription': 'Live-Transkription während der Aufnahme',
+  'settings.diarization': 'Sprecher erkennen (Besprechungen)',
+  'settings.diarizationHint':
+    'Kennzeichnet, wer wann spricht. Nur mit dem OpenAI-kompatiblen Anbieter und einem Modell mit Sprechererkennung; ersetzt Live-Transkription und Aufteilen langer Aufnahmen.',
+  'settings.liveTranscriptionHint':
+    'Zeigt alle paar Sekunden den bisherigen Text an. Nur mit dem OpenAI-kompatiblen Anbieter verfügbar.',
+  'settings.export': 'Exportieren',
+  'settings.import': 'Importieren',
+  'settings.transferHint':
+    'API-Keys, Mikrofon, Speicherort der Aufnahmen, Position der Aufnahmeleiste und die lokale Schnittstelle werden nicht übertragen.',
+  'settings.exportFileName': 'micscribe-einstellungen',
+  'settings.localApi': 'Lokale Schnittstelle',
+  'settings.localApiEnabled': 'Steuerung durch Skripte und andere Programme',
+  'settings.localApiPort': 'Port',
+  'settings.localApiHint':
+    'Nur auf diesem Computer erreichbar (127.0.0.1). Jede Anfrage braucht den Token; die Kommandozeile findet ihn selbst.',
+  'settings.localApiRunning': 'Erreichbar unter {url}',
+  'settings.localApiCopyToken': 'Token kopieren',
+  'settings.localApiRenewToken': 'Neuer Token',
+  'settings.diagnostics': 'Diagnose',
+  'settings.copyDiagnostics': 'Diagnosedaten kopieren',
+  'settings.diagnosticsHint':
+    'Versionen, Einstellungen ohne API-Keys und die letzten Protokolleinträge für einen Fehlerbericht.',
+  'settings.overlay': 'Schwebende Aufnahmeleiste anzeigen',
+  'settings.overlayHint':
+    'Kleines Fenster, das immer im Vordergrund bleibt. Es lässt sich verschieben und merkt sich seine Position.',
+  'settings.trayHint':
+    'Aufnahme, Sprache und Verlauf sind auch über das Symbol im Infobereich erreichbar.',
+  'settings.provider': 'Transkriptions-Anbieter',
+  'settings.providerReplicate': 'Replicate (gpt-4o-transcribe)',
+  'settings.providerOpenai': 'OpenAI-kompatibler Server',
+  'settings.replicateKey': 'Replicate API-Key',
+  'settings.keyHint':
+    'Keys werden verschlüsselt gespeichert und danach nicht mehr angezeigt.',
+  'settings.keyEncryptionUnavailable':
+    'Keine Schlüsselverwaltung des Systems verfügbar: API-Keys werden unverschlüsselt gespeichert.',
+  'settings.keyActive': 'Aktiver Key',
+  'settings.keyNone': 'Kein Key gespeichert',
+  'settings.keyUnencrypted': 'unverschlüsselt',
+  'settings.keyNamePlaceholder': 'Name, z. B. Arbeit',
+  'settings.keyTest': 'Testen',
+  'settings.keyAdd': 'Hinzufügen',
+  'settings.keyDefaultName': 'Key {count}',
+  'settings.keyMigratedName': 'Übernommener Key',
+  'settings.serverUrl': 'Server-URL',
+  'settings.serverUrlHint':
+    'Endpunkt mit /v1/audio/transcriptions, z. B. ein lokaler whisper.cpp-Server.',
+  'settings.model': 'Modell',
+  'settings.diarizationModel': 'Modell mit Sprechererkennung',
+  'settings.optionalKey': 'API-Key (optional)',
+
+  'history.title': 'Verlauf',
+  'history.search': 'Transkripte durchsuchen...',
+  'history.clearAll': 'Alles löschen',
+  'history.empty': 'Noch keine Transkripte.',
+  'history.noMatches': 'Keine Treffer.',
+  'history.confirmClear': 'Den gesamten Verlauf löschen?',
+
+  'tray.stateIdle': 'Bereit',
+  'tray.stateRecording': 'Aufnahme läuft',
+  'tray.statePaused': 'Aufnahme pausiert',
+  'tray.stateTranscribing': 'Transkribiere...',
+  'tray.startRecording': 'Aufnahme starten',
+  'tray.stopRecording': 'Aufnahme stoppen',
+  'tray.copyLast': 'Letztes Transkript kopieren',
+  'tray.language': 'Sprache',
+  'tray.openHistory': 'Verlauf öffnen',
+  'tray.show': 'MicScribe öffnen',
+  'tray.openAtLogin': 'Beim Anmelden starten',
+  'tray.quit': 'Beenden',
+  'tray.overlay': 'Aufnahmeleiste anzeigen',
+
+  'overlay.hide': 'Aufnahmeleiste ausblenden',
+  'overlay.empty': 'Kein Text erkannt.',
+  'overlay.copied': 'Kopiert',
+
+  'queue.title': 'Warteschlange',
+  'queue.hint':
+    'Fehlgeschlagene Aufnahmen werden automatisch erneut transkribiert, sobald die Verbindung wieder steht.',
+  'queue.attempts': '{count} Versuch(e)',
+  'queue.nextAttempt': 'nächster Versuch {time}',
+  'queue.stopped': 'kein automatischer Versuch mehr',
+  'queue.retry': 'Erneut versuchen',
+  'queue.discard': 'Verwerfen',
+  'queue.confirmDiscard': 'Diese Aufnahme endgültig verwerfen?',
+
+  'files.queued': 'Wartet',
+  'files.running': 'Wird transkribiert...',
+  'files.done': 'Fertig',
+  'files.error': 'Fehler',
+  'files.filterName': 'Audio/Video',
+
+  'result.title': 'Transkript',
+  'result.placeholder': 'Hier erscheint das Transkript...',
+  'result.recordAgain': 'Erneut aufnehmen',
+  'result.export': 'Exportieren',
+  'result.retranscribe': 'Neu transkribieren',
+  'result.exportFormat': 'Exportformat',
+  'result.formatSrt': 'SRT-Untertitel (.srt)',
+  'result.formatVtt': 'WebVTT-Untertitel (.vtt)',
+  'result.formatTxt': 'Text (.txt)',
+  'result.formatMd': 'Markdown (.md)',
+  'result.formatJson': 'JSON (.json)',
+  'result.detectedLanguage': 'Erkannt: {language}',
+  'result.timestampsEstimated': 'Zeitstempel geschätzt',
+  'result.segmentsWithTimestamps': '{count} Abschnitte mit Zeitstempeln',
+  'result.speakers': 'Sprecher',
+  'result.renameSpeaker': '{name} umbenennen',
+  'result.undo': 'Rückgängig',
+  'result.redo': 'Wiederholen',
+  'result.showChanges': 'Änderungen anzeigen',
+  'result.revertEdits': 'Original wiederherstellen',
+  'result.retranscribeSelection': 'Auswahl neu transkribieren',
+  'transcript.speaker': 'Sprecher {number}',
+
+  'rewrite.mode': 'Umschreib-Modus',
+  'rewrite.modeClean': 'Füllwörter entfernen',
+  'rewrite.modeGrammar': 'Grammatik korrigieren',
+  'rewrite.modeSummary': 'Zusammenfassen',
+  'rewrite.modeBullets': 'Stichpunkte',
+  'rewrite.modeEmail': 'Als E-Mail',
+  'rewrite.apply': 'Umschreiben',
+  'rewrite.running': 'Wird umgeschrieben...',
+  'rewrite.done': 'Text umgeschrieben.',
+  'rewrite.before': 'Vorher',
+  'rewrite.useOriginal': 'Original verwenden',
+  'rewrite.untitled': 'Ohne Namen',
+
+  'export.fileName': 'transkript',
+  'export.filterSrt': 'SubRip-Untertitel',
+  'export.filterVtt': 'WebVTT-Untertitel',
+  'export.filterTxt': 'Text',
+  'export.filterMd': 'Markdown',
+  'export.filterJson': 'JSON',
+  'export.mdTitle': 'Transkript',
+  'export.mdDate': 'Datum',
+  'export.mdLanguage': 'Sprache',
+  'export.mdModel': 'Modell',
+  'export.mdText': 'Text',
+  'export.mdSegments': 'Abschnitte',
+  'export.mdSegmentsEstimated': 'Abschnitte (Zeiten geschätzt)',
+};
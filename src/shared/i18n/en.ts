@@ -0,0 +1,383 @@
+import type { Messages } from './index';
+
+export const en: Messages = {
+  'common.save': 'Save',
+  'common.remove': 'Remove',
+  'common.delete': 'Delete',
+  'common.copy': 'Copy',
+  'common.close': 'Close',
+  'common.show': 'Show',
+  'common.cancel': 'Cancel',
+  'common.saved': 'Saved',
+  'common.notSet': 'Not set',
+  'common.off': 'Off',
+  'common.errorPrefix': 'Error: {message}',
+  'common.unknownError': 'Unknown error.',
+
+  'app.settings': 'Settings',
+  'app.history': 'History',
+  'app.retryQueue': 'Queue of failed recordings',
+  'app.toggleTheme': 'Toggle theme',
+  'app.toggleThemeHint': 'Toggle theme (light/dark)',
+  'app.showLastTranscript': 'Show last transcript',
+
+  'record.start': 'Record',
+  'record.stop': 'Stop',
+  'record.processing': 'Processing',
+  'record.cancelTranscription': 'Cancel transcription',
+  'record.discard': 'Discard recording',
+  'record.pause': 'Pause recording',
+  'record.resume': 'Resume recording',
+  'record.openFile': 'Open file',
+  'record.dropFiles': 'Drop audio or video files here',
+
+  'status.ready': 'Ready to record',
+  'status.recording': 'Recording...',
+  'status.paused': 'Recording paused. Click ▶ to resume.',
+  'status.transcribing': 'Transcribing...',
+  'status.stageUploading': 'Uploading audio...',
+  'status.stageQueued': 'Waiting for the transcription service...',
+  'status.stageRunning': 'Transcribing...',
+  'status.transcriptionCancelled': 'Transcription cancelled.',
+  'status.discarded': 'Recording discarded.',
+  'status.copied': 'Transcript copied.',
+  'status.pasted': 'Transcript pasted.',
+  'status.exported': 'Exported: {path}',
+  'status.speakerNameTaken': 'Another speaker is already called "{name}".',
+  'status.settingsExported': 'Settings exported: {path}',
+  'status.settingsImported': 'Settings imported.',
+  'status.diagnosticsCopied':
+    'Diagnostics copied to the clipboard. Please attach them to your bug report.',
+  'status.apiTokenCopied': 'Local API token copied.',
+  'status.apiTokenRenewed':
+    'New token created. Scripts using the old token are rejected.',
+  'status.noSignal': 'No signal – is the right microphone selected?',
+  'status.silenceStop': 'Silence detected – stopping the recording.',
+  'status.maxDuration': 'Maximum recording length reached.',
+  'status.splitting': 'Splitting recording...',
+  'status.segmentProgress': 'Transcribing segment {current}/{total}...',
+  'status.segmentsFailed': '{failed} of {total} segments could not be transcribed.',
+  'status.filesDone': 'Files transcribed.',
+  'status.filesFailed': '{count} file(s) could not be transcribed.',
+  'status.unsupportedFilesSkipped': 'Unsupported files were skipped.',
+  'status.queueRetrying': 'Transcribing queued recording...',
+  'status.queueCompleted': 'A queued recording has been transcribed.',
+  'status.retranscribing': 'Transcribing the recording again...',
+  'status.retranscribed': 'Recording transcribed again.',
+  'status.selectPassage':
+    'First select the passage of the text to transcribe again.',
+  'status.retranscribingSelection': 'Transcribing the selection again...',
+  'status.selectionRetranscribed':
+    'Selection ({start} to {end}) transcribed again.',
+  'status.apiKeySaved': 'API key saved.',
+  'status.apiKeyRemoved': 'API key removed.',
+  'status.apiKeySavedUnverified': 'API key saved, but it could not be checked.',
+  'status.keyTesting': 'Checking API key...',
+  'status.keyValid': 'API key is valid.',
+  'status.keyUnverified':
+    'API key could not be checked (server unreachable or without key check).',
+  'status.keyInvalid': 'The provider rejected the API key.',
+  'status.hotkeyUnavailable': 'Shortcut {accelerator} is not available.',
+
+  'error.micPermission': 'Microphone permission failed.',
+  'error.deviceDisconnected': 'The microphone was disconnected.',
+  'error.recordingUnsupported': 'Audio recording is not supported.',
+  'error.recordingFailed': 'Recording failed.',
+  'error.mediaRecorderUnsupported': 'MediaRecorder is not supported.',
+  'error.deviceQueryUnsupported': 'Listing devices is not supported.',
+  'error.recordingMissing':
+    'The recording of this transcript is no longer available.',
+  'error.apiKeyMissing': 'Please enter an API key.',
+  'error.keyRejected': 'The provider rejected the API key. It was not saved.',
+  'error.keyProviderInvalid': 'Unknown provider.',
+  'error.queuedNotice':
+    'The recording was saved to the queue and will be retried automatically.',
+  'error.replicateTokenMissing':
+    'REPLICATE_API_TOKEN is not set. Set it as an environment variable or save it in the settings.',
+  'error.openaiUrlMissing':
+    'No server URL set for the OpenAI-compatible provider.',
+  'error.serverStatus': 'Transcription server responded with {status}{detail}',
+  'error.noAudio': 'No audio data received.',
+  'error.unsupportedFile': 'File format is not supported.',
+  'error.apiInvalidRequest': 'Invalid request.',
+  'error.apiForbidden': 'Requests from a browser are not allowed.',
+  'error.apiUnauthorized': 'Token missing or invalid.',
+  'error.apiNotFound': 'Unknown command.',
+  'error.apiUnavailable': 'The main window is not ready.',
+  'error.apiBusy': 'A recording or transcription is already running.',
+  'error.apiNotRecording': 'No recording is running.',
+  'error.apiRecordingDiscarded': 'The recording was discarded.',
+  'error.apiFileMissing': 'The file was not found.',
+  'error.apiNoTranscript': 'The history is empty.',
+  'error.apiPortInUse': 'Port {port} is already used by another program.',
+  'cli.usage':
+    'Usage: MicScribe --cli <status|start|stop|last|transcribe <file>> [--language <code>] [--json]',
+  'cli.notEnabled':
+    'The local API is not set up. Enable it in the MicScribe settings.',
+  'cli.notRunning': 'MicScribe is not running or the local API is turned off.',
+  'error.invalidExportFormat': 'Invalid export format.',
+  'error.settingsRejected': 'Invalid settings ignored: {fields}',
+  'error.settingsFileInvalid': 'The file does not contain MicScribe settings.',
+  'error.settingsFileNewer':
+    'The settings come from a newer version of MicScribe.',
+  'error.pasteUnsupported': 'Automatic pasting is only supported on Windows.',
+  'error.textServerStatus': 'Text model server responded with {status}{detail}',
+  'error.rewriteEmpty': 'No text to rewrite.',
+  'error.rewriteUnknownMode': 'Unknown or empty rewrite mode.',
+  'error.transcriptionUnknown': 'Unknown transcription error.',
+
+  'errorCategory.tokenMissing':
+    'No API key stored. Please save a key in the settings.',
+  'errorCategory.tokenInvalid':
+    'The provider rejected the API key. Please check the key in the settings.',
+  'errorCategory.offline':
+    'Cannot reach the provider. Please check your internet connection.',
+  'errorCategory.rateLimited':
+    'Too many requests at the provider. Please wait a moment and try again.',
+  'errorCategory.payloadTooLarge':
+    'The recording is too large for the provider. Please enable splitting long recordings in the settings or use shorter segments.',
+  'errorCategory.unsupportedFormat':
+    'The provider cannot process this audio format.',
+  'errorCategory.micPermission':
+    'No access to the microphone. Please allow access in the privacy settings of your system.',
+  'errorCategory.deviceDisconnected':
+    'The microphone is unavailable or was disconnected. Please plug it in or choose another one in the settings.',
+  'errorAction.openSettings': 'Open settings',
+  'errorAction.openMicPrivacy': 'Allow microphone access',
+  'error.transcriptionCancelled': 'Transcription cancelled.',
+  'error.transcriptionTimeout':
+    'Timed out: the transcription took longer than {seconds} seconds.',
+
+  'devices.none': 'No microphone found',
+  'devices.fallbackLabel': 'Microphone {index}',
+
+  'settings.title': 'Settings',
+  'settings.uiLanguage': 'Interface language',
+  'settings.language': 'Recording language',
+  'settings.languageAuto': 'Detect automatically',
+  'settings.languageAutoShort': 'Auto',
+  'settings.microphone': 'Microphone',
+  'settings.micEchoCancellation': 'Echo cancellation',
+  'settings.micNoiseSuppression': 'Noise suppression',
+  'settings.micAutoGainControl': 'Automatic gain control',
+  'settings.micChannels': 'Channels',
+  'settings.micSampleRate': 'Sample rate',
+  'settings.micDeviceDefault': 'Device default',
+  'settings.micMono': 'Mono',
+  'settings.micStereo': 'Stereo',
+  'settings.micChannelCount': '{count} channels',
+  'settings.micProcessingHint':
+    'Applies from the next recording. Channels and sample rate are only used if the device supports them.',
+  'settings.micTest': 'Test microphone',
+  'settings.micTestStarting': 'Opening the microphone...',
+  'settings.micTestRecording':
+    'Please speak – {seconds} s left, level {level} dB',
+  'settings.micTestResult':
+    'Peak level {peak} dB ({details}). Playing back the recording.',
+  'settings.micTestSilent':
+    'No signal detected. Please choose another microphone or check the input level.',
+  'settings.micTestClipping':
+    'The signal is clipping ({details}). Please lower the input level or turn on automatic gain control.',
+  'settings.hotkey': 'Global shortcut',
+  'settings.hotkeyPlaceholder': 'Press a key combination...',
+  'settings.hotkeyHint': 'Also works while MicScribe is in the background.',
+  'settings.hotkeyActive': 'Active',
+  'settings.hotkeyUnavailable': 'Unavailable',
+  'settings.hotkeyInactive': 'Inactive',
+  'settings.hotkeyMode': 'Mode',
+  'settings.hotkeyModeToggle': 'Toggle (press to start/stop)',
+  'settings.hotkeyModeHold': 'Hold to talk',
+  'settings.hotkeyModeHint':
+    'Hold to talk is only available on Windows; the release is detected when the key repeat ends. On other systems the hotkey toggles.',
+  'settings.hotkeyAutoCopy': 'Copy result automatically',
+  'settings.hotkeyAutoPaste': 'Paste into the previous window',
+  'settings.autoStop': 'Stop automatically',
+  'settings.silenceAutoStop': 'After silence (seconds)',
+  'settings.maxRecording': 'Maximum length (seconds)',
+  'settings.autoStopHint': 'Leave empty to turn this off.',
+  'settings.chunking': 'Transcribe long recordings in segments',
+  'settings.chunkingHint':
+    'Segments overlap by 2 seconds and are stitched together afterwards.',
+  'settings.chunkThreshold': 'From length (seconds)',
+  'settings.chunkLength': 'Segment length (seconds)',
+  'settings.vocabulary': 'Custom vocabulary',
+  'settings.vocabularyPlaceholder': 'One term per line, e.g. MicScribe',
+  'settings.vocabularyHint':
+    'Passed to the model as a hint so names and jargon are spelled correctly.',
+  'settings.voiceCommands':
+    'Expand voice commands ("new line", "new paragraph", "comma" …)',
+  'settings.rules': 'Replacement rules',
+  'settings.rulesHint':
+    'Applied top to bottom after the voice commands. Regex replacements may use $1, $2 …',
+  'settings.ruleFind': 'Find',
+  'settings.ruleReplace': 'Replace with',
+  'settings.ruleRegex': 'Regex',
+  'settings.ruleAdd': 'Add rule',
+  'settings.ruleMoveUp': 'Move up',
+  'settings.ruleMoveDown': 'Move down',
+  'settings.ruleInvalid': 'Rule {index}: invalid regular expression.',
+  'settings.preview': 'Preview with the last transcript',
+  'settings.previewEmpty': 'No transcript yet.',
+  'settings.rewriteTemplates': 'Custom rewrite templates',
+  'settings.rewriteTemplatesHint':
+    'The {text} placeholder is replaced by the transcript, otherwise it is appended.',
+  'settings.rewriteName': 'Name',
+  'settings.rewritePrompt': 'Instruction for the text model',
+  'settings.rewriteAdd': 'Add template',
+  'settings.rewriteModel': 'Text model (OpenAI-compatible server)',
+  'settings.historyKeepAudio': 'Keep audio in the history',
+  'settings.historyHint': 'Transcripts are always saved to the local history.',
+  'settings.closeToTray': 'Keep running in the tray when closed',
+  'settings.openAtLogin': 'Start at login',
+  'settings.audioDirectory': 'Recordings folder',
+  'settings.audioDirectoryChoose': 'Choose folder',
+  'settings.audioDirectoryReset': 'Default',
+  'settings.audioRetention': 'Retention',
+  'settings.audioMaxAge': 'Maximum age (days)',
+  'settings.audioMaxSize': 'Total size (MB)',
+  'settings.audioRetentionHint':
+    'Applied on startup. Older recordings are deleted, their transcripts stay in the history.',
+  'settings.transfer': 'Transfer settings',
+  'settings.transcriptionTimeout': 'Transcription timeout (seconds)',
+  'settings.transcriptionTimeoutHint': 'Leave empty to wait without a limit.',
+  'settings.liveTranscription': 'Live transcription while recording',
+  'settings.diarization': 'Detect speakers (meetings)',
+  'settings.diarizationHint':
+    'Labels who speaks when. Only with the OpenAI-compatible provider and a model with speaker detection; replaces live transcription and splitting long recordings.',
+  'settings.liveTranscriptionHint':
+    'Shows the text so far every few seconds. Only available with the OpenAI-compatible provider.',
+  'settings.export': 'Export',
+  'settings.import': 'Import',
+  'settings.transferHint':
+    'API keys, microphone, recordings folder, overlay position and the local API are not transferred.',
+  'settings.exportFileName': 'micscribe-settings',
+  'settings.localApi': 'Local API',
+  'settings.localApiEnabled': 'Control from scripts and other programs',
+  'settings.localApiPort': 'Port',
+  'settings.localApiHint':
+    'Only reachable from this computer (127.0.0.1). Every request needs the token; the command line finds it on its own.',
+  'settings.localApiRunning': 'Available at {url}',
+  'settings.localApiCopyToken': 'Copy token',
+  'settings.localApiRenewToken': 'New token',
+  'settings.diagnostics': 'Diagnostics',
+  'settings.copyDiagnostics': 'Copy diagnostics',
+  'settings.diagnosticsHint':
+    'Versions, settings without API keys and the latest log entries for a bug report.',
+  'settings.overlay': 'Show floating recording bar',
+  'settings.overlayHint':
+    'Small always-on-top window. It can be dragged and remembers its position.',
+  'settings.trayHint':
+    'Recording, language and history are also available from the tray icon.',
+  'settings.provider': 'Transcription provider',
+  'settings.providerReplicate': 'Replicate (gpt-4o-transcribe)',
+  'settings.providerOpenai': 'OpenAI-compatible server',
+  'settings.replicateKey': 'Replicate API key',
+  'settings.keyHint': 'Keys are stored encrypted and not shown again.',
+  'settings.keyEncryptionUnavailable':
+    'No system keyring available: API keys are stored unencrypted.',
+  'settings.keyActive': 'Active key',
+  'settings.keyNone': 'No key saved',
+  'settings.keyUnencrypted': 'unencrypted',
+  'settings.keyNamePlaceholder': 'Name, e.g. Work',
+  'settings.keyTest': 'Test',
+  'settings.keyAdd': 'Add',
+  'settings.keyDefaultName': 'Key {count}',
+  'settings.keyMigratedName': 'Imported key',
+  'settings.serverUrl': 'Server URL',
+  'settings.serverUrlHint':
+    'Endpoint with /v1/audio/transcriptions, e.g. a local whisper.cpp server.',
+  'settings.model': 'Model',
+  'settings.diarizationModel': 'Model with speaker detection',
+  'settings.optionalKey': 'API key (optional)',
+
+  'history.title': 'History',
+  'history.search': 'Search transcripts...',
+  'history.clearAll': 'Clear all',
+  'history.empty': 'No transcripts yet.',
+  'history.noMatches': 'No matches.',
+  'history.confirmClear': 'Delete the entire history?',
+
+  'tray.stateIdle': 'Ready',
+  'tray.stateRecording': 'Recording',
+  'tray.statePaused': 'Recording paused',
+  'tray.stateTranscribing': 'Transcribing...',
+  'tray.startRecording': 'Start recording',
+  'tray.stopRecording': 'Stop recording',
+  'tray.copyLast': 'Copy last transcript',
+  'tray.language': 'Language',
+  'tray.openHistory': 'Open history',
+  'tray.show': 'Open MicScribe',
+  'tray.openAtLogin': 'Start at login',
+  'tray.quit': 'Quit',
+  'tray.overlay': 'Show recording bar',
+
+  'overlay.hide': 'Hide recording bar',
+  'overlay.empty': 'No text recognized.',
+  'overlay.copied': 'Copied',
+
+  'queue.title': 'Queue',
+  'queue.hint':
+    'Failed recordings are transcribed again automatically once the connection is back.',
+  'queue.attempts': '{count} attempt(s)',
+  'queue.nextAttempt': 'next attempt {time}',
+  'queue.stopped': 'no more automatic attempts',
+  'queue.retry': 'Retry',
+  'queue.discard': 'Discard',
+  'queue.confirmDiscard': 'Discard this recording permanently?',
+
+  'files.queued': 'Waiting',
+  'files.running': 'Transcribing...',
+  'files.done': 'Done',
+  'files.error': 'Failed',
+  'files.filterName': 'Audio/Video',
+
+  'result.title': 'Transcript',
+  'result.placeholder': 'The transcript appears here...',
+  'result.recordAgain': 'Record again',
+  'result.export': 'Export',
+  'result.retranscribe': 'Transcribe again',
+  'result.exportFormat': 'Export format',
+  'result.formatSrt': 'SRT subtitles (.srt)',
+  'result.formatVtt': 'WebVTT subtitles (.vtt)',
+  'result.formatTxt': 'Text (.txt)',
+  'result.formatMd': 'Markdown (.md)',
+  'result.formatJson': 'JSON (.json)',
+  'result.detectedLanguage': 'Detected: {language}',
+  'result.timestampsEstimated': 'Timestamps estimated',
+  'result.segmentsWithTimestamps': '{count} segments with timestamps',
+  'result.speakers': 'Speakers',
+  'result.renameSpeaker': 'Rename {name}',
+  'result.undo': 'Undo',
+  'result.redo': 'Redo',
+  'result.showChanges': 'Show changes',
+  'result.revertEdits': 'Restore original',
+  'result.retranscribeSelection': 'Transcribe selection again',
+  'transcript.speaker': 'Speaker {number}',
+
+  'rewrite.mode': 'Rewrite mode',
+  'rewrite.modeClean': 'Remove filler words',
+  'rewrite.modeGrammar': 'Fix grammar',
+  'rewrite.modeSummary': 'Summarize',
+  'rewrite.modeBullets': 'Bullet points',
+  'rewrite.modeEmail': 'As email',
+  'rewrite.apply': 'Rewrite',
+  'rewrite.running': 'Rewriting...',
+  'rewrite.done': 'Text rewritten.',
+  'rewrite.before': 'Before',
+  'rewrite.useOriginal': 'Use original',
+  'rewrite.untitled': 'Untitled',
+
+  'export.fileName': 'transcript',
+  'export.filterSrt': 'SubRip subtitles',
+  'export.filterVtt': 'WebVTT subtitles',
+  'export.filterTxt': 'Text',
+  'export.filterMd': 'Markdown',
+  'export.filterJson': 'JSON',
+  'export.mdTitle': 'Transcript',
+  'export.mdDate': 'Date',
+  'export.mdLanguage': 'Language',
+  'export.mdModel': 'Model',
+  'export.mdText': 'Text',
+  'export.mdSegments': 'Segments',
+  'export.mdSegmentsEstimated': 'Segments (timings estimated)',
+};
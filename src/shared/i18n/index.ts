@@ -0,0 +1,37 @@
+import { de } from './de';
+import { en } from './en';
+
+export type UiLanguage = 'de' | 'en';
+
+export const UI_LANGUAGES: UiLanguage[] = ['de', 'en'];
+
+export type MessageKey = keyof typeof de;
+export type Messages = Record<MessageKey, string>;
+export type MessageParams = Record<string, string | number>;
+
+const catalogs: Record<UiLanguage, Messages> = { de, en };
+
+export const isUiLanguage = (value: unknown): value is UiLanguage =>
+  UI_LANGUAGES.includes(value as UiLanguage);
+
+/**
+ * Looks up a message and fills `{name}` placeholders. Missing translations
+ * fall back to German, unknown placeholders are left as they are.
+ */
+export const translate = (
+  language: UiLanguage,
+  key: MessageKey,
+  params?: MessageParams,
+): string => {
+  const template = catalogs[language]?.[key] ?? de[key] ?? key;
+  if (!params) {
+    return template;
+  }
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match,
+  );
+};
+
+// BCP 47 tag for Intl/toLocaleString calls.
+export const getLocale = (language: UiLanguage) =>
+  language === 'de' ? 'de-DE' : 'en-US';
@@ -0,0 +1,8 @@
+// Stages a transcription job reports while it runs. Providers skip the ones
+// they cannot observe, e.g. a single-request server goes straight to running.
+export type JobStage = 'uploading' | 'queued' | 'running' | 'done';
+
+export type JobProgress = {
+  jobId: string;
+  stage: JobStage;
+};
@@ -0,0 +1,100 @@
+/**
+ * Languages accepted by the transcription backends (the Whisper language
+ * set, which gpt-4o-transcribe shares). `name` is the endonym shown in the
+ * UI, `englishName` is what Whisper reports in verbose_json responses.
+ */
+export const LANGUAGES = [
+  { code: 'af', name: 'Afrikaans', englishName: 'afrikaans' },
+  { code: 'ar', name: 'العربية', englishName: 'arabic' },
+  { code: 'az', name: 'Azərbaycanca', englishName: 'azerbaijani' },
+  { code: 'be', name: 'Беларуская', englishName: 'belarusian' },
+  { code: 'bg', name: 'Български', englishName: 'bulgarian' },
+  { code: 'bs', name: 'Bosanski', englishName: 'bosnian' },
+  { code: 'ca', name: 'Català', englishName: 'catalan' },
+  { code: 'cs', name: 'Čeština', englishName: 'czech' },
+  { code: 'cy', name: 'Cymraeg', englishName: 'welsh' },
+  { code: 'da', name: 'Dansk', englishName: 'danish' },
+  { code: 'de', name: 'Deutsch', englishName: 'german' },
+  { code: 'el', name: 'Ελληνικά', englishName: 'greek' },
+  { code: 'en', name: 'English', englishName: 'english' },
+  { code: 'es', name: 'Español', englishName: 'spanish' },
+  { code: 'et', name: 'Eesti', englishName: 'estonian' },
+  { code: 'fa', name: 'فارسی', englishName: 'persian' },
+  { code: 'fi', name: 'Suomi', englishName: 'finnish' },
+  { code: 'fr', name: 'Français', englishName: 'french' },
+  { code: 'gl', name: 'Galego', englishName: 'galician' },
+  { code: 'he', name: 'עברית', englishName: 'hebrew' },
+  { code: 'hi', name: 'हिन्दी', englishName: 'hindi' },
+  { code: 'hr', name: 'Hrvatski', englishName: 'croatian' },
+  { code: 'hu', name: 'Magyar', englishName: 'hungarian' },
+  { code: 'hy', name: 'Հայերեն', englishName: 'armenian' },
+  { code: 'id', name: 'Bahasa Indonesia', englishName: 'indonesian' },
+  { code: 'is', name: 'Íslenska', englishName: 'icelandic' },
+  { code: 'it', name: 'Italiano', englishName: 'italian' },
+  { code: 'ja', name: '日本語', englishName: 'japanese' },
+  { code: 'kk', name: 'Қазақ тілі', englishName: 'kazakh' },
+  { code: 'kn', name: 'ಕನ್ನಡ', englishName: 'kannada' },
+  { code: 'ko', name: '한국어', englishName: 'korean' },
+  { code: 'lt', name: 'Lietuvių', englishName: 'lithuanian' },
+  { code: 'lv', name: 'Latviešu', englishName: 'latvian' },
+  { code: 'mi', name: 'Māori', englishName: 'maori' },
+  { code: 'mk', name: 'Македонски', englishName: 'macedonian' },
+  { code: 'mr', name: 'मराठी', englishName: 'marathi' },
+  { code: 'ms', name: 'Bahasa Melayu', englishName: 'malay' },
+  { code: 'ne', name: 'नेपाली', englishName: 'nepali' },
+  { code: 'nl', name: 'Nederlands', englishName: 'dutch' },
+  { code: 'no', name: 'Norsk', englishName: 'norwegian' },
+  { code: 'pl', name: 'Polski', englishName: 'polish' },
+  { code: 'pt', name: 'Português', englishName: 'portuguese' },
+  { code: 'ro', name: 'Română', englishName: 'romanian' },
+  { code: 'ru', name: 'Русский', englishName: 'russian' },
+  { code: 'sk', name: 'Slovenčina', englishName: 'slovak' },
+  { code: 'sl', name: 'Slovenščina', englishName: 'slovenian' },
+  { code: 'sr', name: 'Српски', englishName: 'serbian' },
+  { code: 'sv', name: 'Svenska', englishName: 'swedish' },
+  { code: 'sw', name: 'Kiswahili', englishName: 'swahili' },
+  { code: 'ta', name: 'தமிழ்', englishName: 'tamil' },
+  { code: 'th', name: 'ไทย', englishName: 'thai' },
+  { code: 'tl', name: 'Tagalog', englishName: 'tagalog' },
+  { code: 'tr', name: 'Türkçe', englishName: 'turkish' },
+  { code: 'uk', name: 'Українська', englishName: 'ukrainian' },
+  { code: 'ur', name: 'اردو', englishName: 'urdu' },
+  { code: 'vi', name: 'Tiếng Việt', englishName: 'vietnamese' },
+  { code: 'zh', name: '中文', englishName: 'chinese' },
+] as const;
+
+export type LanguageCode = (typeof LANGUAGES)[number]['code'];
+
+// 'auto' sends no language parameter and lets the model detect it.
+export type Language = LanguageCode | 'auto';
+
+export const AUTO_LANGUAGE = 'auto';
+
+export const LANGUAGE_CODES: LanguageCode[] = LANGUAGES.map(
+  (language) => language.code,
+);
+
+// Number of recently used languages offered in the quick switcher.
+export const MAX_RECENT_LANGUAGES = 4;
+
+export const isLanguageCode = (value: unknown): value is LanguageCode =>
+  LANGUAGE_CODES.includes(value as LanguageCode);
+
+export const isLanguage = (value: unknown): value is Language =>
+  value === AUTO_LANGUAGE || isLanguageCode(value);
+
+export const getLanguageName = (code: string) =>
+  LANGUAGES.find((language) => language.code === code)?.name ?? code;
+
+/**
+ * Maps a provider-reported language ("de", "german", "German") to its code.
+ * Unknown values are passed through in lower case.
+ */
+export const toLanguageCode = (value: string): string => {
+  const normalized = value.trim().toLowerCase();
+  const match = LANGUAGES.find(
+    (language) =>
+      language.code === normalized || language.englishName === normalized,
+  );
+  return match?.code ?? normalized;
+};
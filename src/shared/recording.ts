@@ -0,0 +1,23 @@
+export type RecordingState = 'idle' | 'recording' | 'paused' | 'transcribing';
+
+export const RECORDING_STATES: RecordingState[] = [
+  'idle',
+  'recording',
+  'paused',
+  'transcribing',
+];
+
+// A paused recording is still open and can be stopped like a running one.
+export const isRecordingOpen = (state: RecordingState) =>
+  state === 'recording' || state === 'paused';
+
+// Live feedback of the running recording, mirrored to the overlay window.
+export type RecordingLevel = {
+  // 0..1 for display.
+  level: number;
+  elapsedMs: number;
+  silent: boolean;
+};
+
+// Outcome of a recording as shown in the overlay toast.
+export type RecordingResult = { text: string } | { error: string };
@@ -0,0 +1,15 @@
+import type { Language } from './languages';
+
+// A failed recording waiting in the retry queue.
+export type RetryQueueItem = {
+  id: string;
+  createdAt: string;
+  language: Language;
+  durationMs: number | null;
+  mimeType: string | undefined;
+  extension: string;
+  attempts: number;
+  lastError: string;
+  // Null once automatic retries stopped; the item waits for a manual retry.
+  nextAttemptAt: string | null;
+};
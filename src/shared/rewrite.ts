@@ -0,0 +1,27 @@
+export type BuiltinRewriteMode =
+  | 'clean'
+  | 'grammar'
+  | 'summary'
+  | 'bullets'
+  | 'email';
+
+export const BUILTIN_REWRITE_MODES: BuiltinRewriteMode[] = [
+  'clean',
+  'grammar',
+  'summary',
+  'bullets',
+  'email',
+];
+
+// User-defined template. `{text}` in the prompt is replaced by the
+// transcript; without the placeholder the transcript is appended.
+export type CustomRewriteMode = {
+  id: string;
+  name: string;
+  prompt: string;
+};
+
+export const isBuiltinRewriteMode = (
+  value: unknown,
+): value is BuiltinRewriteMode =>
+  BUILTIN_REWRITE_MODES.includes(value as BuiltinRewriteMode);
@@ -0,0 +1,183 @@
+import type { UiLanguage } from './i18n';
+import type { Language, LanguageCode } from './languages';
+import type { CustomRewriteMode } from './rewrite';
+
+// Single definition of the settings shared by the main process, the preload
+// bridge and the renderer. Validation lives in main/settings.ts.
+
+export type Theme = 'light' | 'dark' | 'system';
+
+export const THEMES: Theme[] = ['light', 'dark', 'system'];
+
+export type ProviderId = 'replicate' | 'openai-compatible';
+
+export const PROVIDER_IDS: ProviderId[] = ['replicate', 'openai-compatible'];
+
+export type ProviderCapabilities = {
+  // Short windows come back fast enough to show partial text while
+  // recording. Replicate queues every window as a separately billed
+  // prediction, so the text would lag far behind.
+  liveTranscription: boolean;
+  // Speaker-labelled segments through a diarizing model. gpt-4o-transcribe on
+  // Replicate only returns plain text.
+  diarization: boolean;
+};
+
+export const PROVIDER_CAPABILITIES: Record<ProviderId, ProviderCapabilities> =
+  {
+    replicate: { liveTranscription: false, diarization: false },
+    'openai-compatible': { liveTranscription: true, diarization: true },
+  };
+
+export type HotkeyMode = 'toggle' | 'hold';
+
+export const HOTKEY_MODES: HotkeyMode[] = ['toggle', 'hold'];
+
+// Offered in the settings; null keeps what the device delivers.
+export const MIC_CHANNEL_COUNTS = [1, 2];
+
+export const MIC_SAMPLE_RATES = [16000, 24000, 44100, 48000];
+
+export type ReplacementRule = {
+  find: string;
+  replace: string;
+  // Regex rules support capture groups ($1) in `replace`.
+  isRegex: boolean;
+};
+
+export type OverlayPosition = { x: number; y: number };
+
+export type Settings = {
+  language: Language;
+  // Most recently chosen languages first, offered by the quick switcher.
+  recentLanguages: LanguageCode[];
+  uiLanguage: UiLanguage;
+  preferredMicDeviceId: string | null;
+  // Processing the browser applies to the microphone signal.
+  micEchoCancellation: boolean;
+  micNoiseSuppression: boolean;
+  micAutoGainControl: boolean;
+  micChannelCount: number | null;
+  micSampleRate: number | null;
+  theme: Theme;
+  transcriptionProvider: ProviderId;
+  openaiBaseUrl: string;
+  openaiModel: string;
+  // Who spoke when, for meeting recordings; uses openaiDiarizationModel.
+  diarizationEnabled: boolean;
+  openaiDiarizationModel: string;
+  // A transcription running longer is aborted; null waits indefinitely.
+  transcriptionTimeoutSeconds: number | null;
+  // Partial text while recording, if the provider supports it.
+  liveTranscription: boolean;
+  historyKeepAudio: boolean;
+  // Custom folder for kept recordings; null uses the app data directory.
+  audioDirectory: string | null;
+  audioMaxAgeDays: number | null;
+  audioMaxTotalMb: number | null;
+  // Closing the window hides it; the app keeps running in the tray.
+  closeToTray: boolean;
+  openAtLogin: boolean;
+  overlayEnabled: boolean;
+  // Last position the overlay was dragged to; not exposed to the renderer.
+  overlayPosition: OverlayPosition | null;
+  hotkey: string | null;
+  hotkeyMode: HotkeyMode;
+  hotkeyAutoCopy: boolean;
+  hotkeyAutoPaste: boolean;
+  chunkingEnabled: boolean;
+  chunkThresholdSeconds: number;
+  chunkLengthSeconds: number;
+  silenceAutoStopSeconds: number | null;
+  maxRecordingSeconds: number | null;
+  vocabulary: string[];
+  replacementRules: ReplacementRule[];
+  voiceCommandsEnabled: boolean;
+  // Built-in mode id or the id of a custom mode, preselected in the result.
+  rewriteMode: string;
+  rewriteModel: string;
+  customRewriteModes: CustomRewriteMode[];
+  // HTTP API on 127.0.0.1 for scripts and the --cli command line.
+  apiServerEnabled: boolean;
+  apiServerPort: number;
+};
+
+export type SettingsKey = keyof Settings;
+
+/**
+ * Version of the stored and exported settings layout. Bump it together with a
+ * new entry in the migrations of main/settings.ts.
+ */
+export const SETTINGS_VERSION = 1;
+
+export const DEFAULT_SETTINGS: Settings = {
+  language: 'de',
+  recentLanguages: ['de', 'en'],
+  uiLanguage: 'de',
+  preferredMicDeviceId: null,
+  micEchoCancellation: true,
+  micNoiseSuppression: true,
+  micAutoGainControl: true,
+  micChannelCount: null,
+  micSampleRate: null,
+  theme: 'system',
+  transcriptionProvider: 'replicate',
+  openaiBaseUrl: 'http://127.0.0.1:8080',
+  openaiModel: 'whisper-1',
+  diarizationEnabled: false,
+  openaiDiarizationModel: 'gpt-4o-transcribe-diarize',
+  transcriptionTimeoutSeconds: 300,
+  liveTranscription: false,
+  historyKeepAudio: false,
+  audioDirectory: null,
+  audioMaxAgeDays: null,
+  audioMaxTotalMb: null,
+  closeToTray: true,
+  openAtLogin: false,
+  overlayEnabled: false,
+  overlayPosition: null,
+  hotkey: 'CommandOrControl+Shift+Space',
+  hotkeyMode: 'toggle',
+  hotkeyAutoCopy: true,
+  hotkeyAutoPaste: false,
+  chunkingEnabled: true,
+  chunkThresholdSeconds: 180,
+  chunkLengthSeconds: 60,
+  silenceAutoStopSeconds: null,
+  maxRecordingSeconds: null,
+  vocabulary: [],
+  replacementRules: [],
+  voiceCommandsEnabled: true,
+  rewriteMode: 'clean',
+  rewriteModel: 'gpt-4o-mini',
+  customRewriteModes: [],
+  apiServerEnabled: false,
+  apiServerPort: 47800,
+};
+
+export const SETTINGS_KEYS = Object.keys(DEFAULT_SETTINGS) as SettingsKey[];
+
+// Tied to this computer, so they are neither exported nor imported.
+export const LOCAL_SETTINGS: SettingsKey[] = [
+  'preferredMicDeviceId',
+  'audioDirectory',
+  'overlayPosition',
+  // Opening a port is up to each computer.
+  'apiServerEnabled',
+  'apiServerPort',
+];
+
+// What the renderer sees: key presence instead of keys, and the effective
+// audio folder.
+export type PublicSettings = Omit<Settings, 'overlayPosition'> & {
+  hasReplicateToken: boolean;
+  hasOpenaiApiKey: boolean;
+  hotkeyRegistered: boolean;
+};
+
+export type SettingsUpdate = {
+  settings: PublicSettings;
+  // Fields that were missing from the schema or failed validation; the
+  // remaining fields are stored.
+  rejected: string[];
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatSpeakerText,
+  isSpeakerNameTaken,
+  replaceSpeakerLabel,
+} from './transcript';
+
+describe('formatSpeakerText', () => {
+  it('starts a labelled paragraph for every speaker turn', () => {
+    expect(
+      formatSpeakerText(
+        [
+          { start: 0, end: 1, text: 'Hallo.', speaker: 'A' },
+          { start: 1, end: 2, text: 'Wie geht es?', speaker: 'A' },
+          { start: 2, end: 3, text: 'Gut.', speaker: 'B' },
+        ],
+        { A: 'Anna', B: 'Ben' },
+      ),
+    ).toBe('Anna: Hallo. Wie geht es?\n\nBen: Gut.');
+  });
+});
+
+describe('replaceSpeakerLabel', () => {
+  it('renames labels at the start of lines only', () => {
+    expect(
+      replaceSpeakerLabel(
+        'Sprecher 1: Ich bin Sprecher 1: ja.\n\nSprecher 2: Gut.\nSprecher 1:',
+        'Sprecher 1',
+        'Anna',
+      ),
+    ).toBe('Anna: Ich bin Sprecher 1: ja.\n\nSprecher 2: Gut.\nAnna:');
+  });
+
+  it('treats names as plain text', () => {
+    expect(replaceSpeakerLabel('A.B (1): Hallo', 'A.B (1)', '$1 & Co')).toBe(
+      '$1 & Co: Hallo',
+    );
+    expect(replaceSpeakerLabel('AxB: Hallo', 'A.B', 'Anna')).toBe(
+      'AxB: Hallo',
+    );
+  });
+});
+
+describe('isSpeakerNameTaken', () => {
+  const speakers = { A: 'Sprecher 1', B: 'Sprecher 2' };
+
+  it('finds names another speaker already uses', () => {
+    expect(isSpeakerNameTaken(speakers, 'A', 'Sprecher 2')).toBe(true);
+  });
+
+  it('allows new names and the speaker keeping its own', () => {
+    expect(isSpeakerNameTaken(speakers, 'A', 'Anna')).toBe(false);
+    expect(isSpeakerNameTaken(speakers, 'A', 'Sprecher 1')).toBe(false);
+  });
+});
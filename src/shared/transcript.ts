@@ -0,0 +1,149 @@
+export type TranscriptSegment = {
+  // Seconds from the start of the recording.
+  start: number;
+  end: number;
+  text: string;
+  // Speaker id from a diarizing model, e.g. "A" or "SPEAKER_00".
+  speaker?: string;
+};
+
+export type Transcript = {
+  text: string;
+  // Text as returned by the provider, before post-processing.
+  rawText?: string;
+  segments: TranscriptSegment[];
+  // True when the provider returned no timings and they were estimated.
+  segmentsEstimated: boolean;
+  // Display names by speaker id; only set for diarized transcripts. The
+  // text then starts every speaker turn with "Name: ".
+  speakers?: Record<string, string>;
+  language: string | null;
+  // True when the language was detected by the model (auto-detect).
+  languageDetected?: boolean;
+  model: string;
+  durationMs: number | null;
+  // History entry that holds this transcript and its kept audio.
+  historyId?: string;
+};
+
+export type ExportFormat = 'srt' | 'vtt' | 'txt' | 'md' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+  'srt',
+  'vtt',
+  'txt',
+  'md',
+  'json',
+];
+
+export const getSpeakerName = (
+  transcript: Transcript,
+  segment: TranscriptSegment,
+): string | null =>
+  (segment.speaker && transcript.speakers?.[segment.speaker]) || null;
+
+/**
+ * Text of a diarized transcript: one paragraph per speaker turn, consecutive
+ * segments of the same speaker are joined.
+ */
+export const formatSpeakerText = (
+  segments: TranscriptSegment[],
+  speakers: Record<string, string>,
+): string => {
+  const turns: { speaker: string | undefined; texts: string[] }[] = [];
+  for (const segment of segments) {
+    const last = turns[turns.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.texts.push(segment.text);
+    } else {
+      turns.push({ speaker: segment.speaker, texts: [segment.text] });
+    }
+  }
+  return turns
+    .map(({ speaker, texts }) => {
+      const name = speaker ? speakers[speaker] : null;
+      return name ? `${name}: ${texts.join(' ')}` : texts.join(' ');
+    })
+    .join('\n\n');
+};
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Renames the "Name: " labels at the start of lines, also in edited text.
+export const replaceSpeakerLabel = (
+  text: string,
+  previous: string,
+  next: string,
+) =>
+  text.replace(
+    new RegExp(`^${escapeRegex(previous)}:`, 'gm'),
+    () => `${next}:`,
+  );
+
+// Two speakers with one name could not be told apart again, in the text or
+// by a later rename.
+export const isSpeakerNameTaken = (
+  speakers: Record<string, string>,
+  id: string,
+  name: string,
+) =>
+  Object.entries(speakers).some(
+    ([other, existing]) => other !== id && existing === name,
+  );
+
+// Used when the recording length is unknown (e.g. imported files).
+const ESTIMATED_CHARS_PER_SECOND = 15;
+
+const splitSentences = (text: string) =>
+  text
+    .split(/(?<=[.!?…])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+
+/**
+ * Spreads the sentences of a plain transcript over the recording, weighted by
+ * their length. Good enough for subtitles of dictations, not for lip sync.
+ */
+export const estimateSegments = (
+  text: string,
+  durationMs: number | null,
+): TranscriptSegment[] => {
+  const sentences = splitSentences(text);
+  const totalChars = sentences.reduce(
+    (sum, sentence) => sum + sentence.length,
+    0,
+  );
+  if (totalChars === 0) {
+    return [];
+  }
+
+  const totalSeconds =
+    durationMs && durationMs > 0
+      ? durationMs / 1000
+      : totalChars / ESTIMATED_CHARS_PER_SECOND;
+
+  let start = 0;
+  return sentences.map((sentence) => {
+    const end = start + (sentence.length / totalChars) * totalSeconds;
+    const segment = { start, end, text: sentence };
+    start = end;
+    return segment;
+  });
+};
+
+export const createTranscript = (
+  text: string,
+  options: {
+    model: string;
+    durationMs: number | null;
+    language?: string | null;
+  },
+): Transcript => ({
+  text,
+  segments: estimateSegments(text, options.durationMs),
+  segmentsEstimated: true,
+  language: options.language ?? null,
+  model: options.model,
+  durationMs: options.durationMs,
+});
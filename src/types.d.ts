@@ -1,29 +1,169 @@
+import type { ExportFormat, Transcript } from './shared/transcript';
+import type { UiLanguage } from './shared/i18n';
+import type { Language } from './shared/languages';
+import type {
+  RecordingLevel,
+  RecordingResult,
+  RecordingState,
+} from './shared/recording';
+import type {
+  ProviderId,
+  PublicSettings,
+  Settings,
+  SettingsUpdate,
+  Theme,
+} from './shared/settings';
+import type { JobProgress } from './shared/jobs';
+import type { HistoryEntry, HistoryTextUpdate } from './shared/history';
+import type { RetryQueueItem } from './shared/retry-queue';
+import type { ApiState } from './shared/api';
+import type {
+  KeyInfo,
+  KeyState,
+  KeyTestResult,
+} from './shared/credentials';
+
 export {};
 
-type Language = 'de' | 'en';
-type Theme = 'light' | 'dark' | 'system';
+type HotkeyAction = 'toggle' | 'start' | 'stop';
 
-type Settings = {
-  language: Language;
-  preferredMicDeviceId: string | null;
-  theme?: Theme;
+type OverlaySettings = {
+  uiLanguage: UiLanguage;
+  theme: Theme;
 };
 
 declare global {
   interface Window {
     micscribe: {
-      getSettings: () => Promise<Settings & { hasReplicateToken: boolean }>;
-      setSettings: (
-        updates: Partial<Settings>,
-      ) => Promise<Settings & { hasReplicateToken: boolean }>;
+      getSettings: () => Promise<PublicSettings>;
+      setSettings: (updates: Partial<Settings>) => Promise<SettingsUpdate>;
+      exportSettings: () => Promise<{ saved: boolean; filePath?: string }>;
+      importSettings: () => Promise<SettingsUpdate | null>;
+      copyDiagnostics: () => Promise<void>;
+      logError: (payload: {
+        category: string;
+        message: string;
+      }) => Promise<void>;
+      openMicPrivacySettings: () => Promise<boolean>;
       transcribeAudio: (payload: {
+        jobId?: string;
         audioBuffer: ArrayBuffer;
         mimeType?: string;
         language: Language;
+        durationMs?: number;
+        saveToHistory?: boolean;
+        queueOnFailure?: boolean;
+      }) => Promise<Transcript>;
+      cancelTranscription: (jobId: string) => Promise<void>;
+      onTranscriptionProgress: (
+        callback: (progress: JobProgress) => void,
+      ) => () => void;
+      listRetryQueue: () => Promise<RetryQueueItem[]>;
+      queueRecording: (payload: {
+        audioBuffer: ArrayBuffer;
+        mimeType?: string;
+        language: Language;
+        durationMs?: number;
+        error: string;
+      }) => Promise<void>;
+      retryQueueItem: (id: string) => Promise<void>;
+      discardQueueItem: (id: string) => Promise<void>;
+      notifyOnline: () => Promise<void>;
+      onRetryQueueChanged: (
+        callback: (items: RetryQueueItem[]) => void,
+      ) => () => void;
+      onRetryCompleted: (callback: (transcript: Transcript) => void) => () => void;
+      openAudioFiles: () => Promise<string[]>;
+      getPathForFile: (file: File) => string;
+      transcribeFile: (payload: {
+        jobId?: string;
+        filePath: string;
+        language: Language;
+      }) => Promise<Transcript>;
+      exportTranscript: (payload: {
+        transcript: Transcript;
+        format: ExportFormat;
+      }) => Promise<{ saved: boolean; filePath?: string }>;
+      rewriteTranscript: (payload: {
+        text: string;
+        mode: string;
+      }) => Promise<{ text: string }>;
+      previewPostProcessing: (payload: {
+        text: string;
+        language: string | null;
+      }) => Promise<{ text: string; invalidRules: number[] }>;
+      postProcessText: (payload: {
+        text: string;
+        language: string | null;
       }) => Promise<string>;
+      addHistoryEntry: (payload: {
+        text: string;
+        language: string;
+        durationMs?: number;
+        audioBuffer?: ArrayBuffer;
+        mimeType?: string;
+      }) => Promise<string | undefined>;
+      getHistoryAudio: (
+        id: string,
+      ) => Promise<{ data: Uint8Array; mimeType: string } | null>;
+      retranscribeHistoryEntry: (payload: {
+        jobId?: string;
+        id: string;
+        language: Language;
+        provider: ProviderId;
+      }) => Promise<Transcript>;
+      updateHistoryText: (payload: HistoryTextUpdate) => Promise<void>;
+      chooseAudioDirectory: () => Promise<PublicSettings>;
+      listHistory: (query?: string) => Promise<HistoryEntry[]>;
+      deleteHistoryEntry: (id: string) => Promise<void>;
+      clearHistory: () => Promise<void>;
+      copyText: (text: string) => Promise<void>;
+      pasteText: (text: string) => Promise<void>;
+      onHotkey: (callback: (action: HotkeyAction) => void) => () => void;
+      setRecordingState: (state: RecordingState) => Promise<void>;
+      sendRecordingLevel: (level: RecordingLevel) => void;
+      sendRecordingResult: (result: RecordingResult) => Promise<void>;
+      onSettingsChanged: (
+        callback: (settings: PublicSettings) => void,
+      ) => () => void;
+      onApiRecording: (
+        callback: (action: 'start' | 'stop') => void,
+      ) => () => void;
+      getApiState: () => Promise<ApiState>;
+      copyApiToken: () => Promise<boolean>;
+      renewApiToken: () => Promise<ApiState>;
+      onOpenHistory: (callback: () => void) => () => void;
+      listKeys: () => Promise<KeyState>;
+      testKey: (input: {
+        provider: ProviderId;
+        value?: string;
+        id?: string;
+      }) => Promise<KeyTestResult>;
+      addKey: (input: {
+        provider: ProviderId;
+        name: string;
+        value: string;
+      }) => Promise<KeyState & { added: KeyInfo; test: KeyTestResult }>;
+      deleteKey: (id: string) => Promise<KeyState>;
+      activateKey: (
+        provider: ProviderId,
+        id: string,
+      ) => Promise<KeyState>;
+    };
+    micscribeOverlay: {
+      getState: () => Promise<
+        OverlaySettings & { recordingState: RecordingState }
+      >;
+      toggleRecording: () => Promise<void>;
+      setExpanded: (expanded: boolean) => Promise<void>;
+      hide: () => Promise<void>;
       copyText: (text: string) => Promise<void>;
-      setReplicateToken: (token: string) => Promise<{ hasReplicateToken: boolean }>;
-      clearReplicateToken: () => Promise<{ hasReplicateToken: boolean }>;
+      onState: (callback: (state: RecordingState) => void) => () => void;
+      onLevel: (callback: (level: RecordingLevel) => void) => () => void;
+      onResult: (callback: (result: RecordingResult) => void) => () => void;
+      onSettings: (
+        callback: (settings: OverlaySettings) => void,
+      ) => () => void;
     };
   }
 }
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { splitIntoSegments, stitchTranscripts } from './chunking';
+
+describe('splitIntoSegments', () => {
+  it('overlaps consecutive segments and ends with the recording', () => {
+    const sampleRate = 100;
+    const segments = splitIntoSegments(
+      new Float32Array(25 * sampleRate),
+      10,
+      sampleRate,
+    );
+    expect(
+      segments.map((segment) => [segment.startSeconds, segment.endSeconds]),
+    ).toEqual([
+      [0, 10],
+      [8, 18],
+      [16, 25],
+    ]);
+  });
+});
+
+describe('stitchTranscripts', () => {
+  it('keeps the overlapping words only once', () => {
+    expect(
+      stitchTranscripts(['eins zwei drei vier', 'drei vier fünf sechs']),
+    ).toBe('eins zwei drei vier fünf sechs');
+  });
+
+  it('ignores case and punctuation when matching the overlap', () => {
+    expect(
+      stitchTranscripts(['Wir sehen uns morgen.', 'uns Morgen, gut']),
+    ).toBe('Wir sehen uns morgen. gut');
+  });
+
+  it('needs more than one shared word to treat it as overlap', () => {
+    expect(stitchTranscripts(['a b und', 'und c d'])).toBe('a b und und c d');
+  });
+
+  it('keeps line breaks and paragraphs', () => {
+    expect(
+      stitchTranscripts([
+        'Erster Absatz.\n\nZweiter Satz',
+        'Zweiter Satz\nEnde',
+      ]),
+    ).toBe('Erster Absatz.\n\nZweiter Satz\nEnde');
+  });
+
+  it('joins segments without overlap with a space, skipping empty ones', () => {
+    expect(stitchTranscripts(['Hallo', '  ', 'Welt'])).toBe('Hallo Welt');
+  });
+});
@@ -0,0 +1,114 @@
+import { TRANSCRIPTION_SAMPLE_RATE, encodeWav } from './wav';
+
+export type AudioSegment = {
+  index: number;
+  startSeconds: number;
+  endSeconds: number;
+  audioBuffer: ArrayBuffer;
+};
+
+// Segments overlap so that words cut at a boundary appear whole in one of
+// them; the duplicate words are removed again when stitching.
+export const SEGMENT_OVERLAP_SECONDS = 2;
+
+export const splitIntoSegments = (
+  samples: Float32Array,
+  segmentSeconds: number,
+  sampleRate = TRANSCRIPTION_SAMPLE_RATE,
+): AudioSegment[] => {
+  const segmentLength = Math.floor(segmentSeconds * sampleRate);
+  const overlapLength = Math.floor(SEGMENT_OVERLAP_SECONDS * sampleRate);
+  const step = Math.max(segmentLength - overlapLength, 1);
+  const segments: AudioSegment[] = [];
+
+  for (let start = 0; start < samples.length; start += step) {
+    const end = Math.min(start + segmentLength, samples.length);
+    segments.push({
+      index: segments.length,
+      startSeconds: start / sampleRate,
+      endSeconds: end / sampleRate,
+      audioBuffer: encodeWav(samples.subarray(start, end), sampleRate),
+    });
+    if (end === samples.length) {
+      break;
+    }
+  }
+
+  return segments;
+};
+
+const MAX_OVERLAP_WORDS = 25;
+const MIN_MATCH_WORDS = 2;
+
+// A word with the whitespace in front of it, so line breaks and paragraphs
+// survive stitching.
+type Word = { text: string; space: string };
+
+const toWords = (text: string): Word[] => {
+  // Words at even indices, the whitespace between them at odd ones.
+  const parts = text.trim().split(/(\s+)/);
+  const words: Word[] = [];
+  for (let index = 0; index < parts.length; index += 2) {
+    if (parts[index]) {
+      words.push({ text: parts[index], space: parts[index - 1] ?? '' });
+    }
+  }
+  return words;
+};
+
+const normalizeWord = (word: Word) =>
+  word.text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+// The first word of the next segment has no whitespace of its own.
+const appendWords = (previous: Word[], next: Word[]): Word[] =>
+  previous.length > 0 && next.length > 0 && !next[0].space
+    ? [...previous, { ...next[0], space: ' ' }, ...next.slice(1)]
+    : [...previous, ...next];
+
+/**
+ * Joins two consecutive segment transcripts. The longest run of words shared
+ * by the end of `previous` and the start of `next` is treated as the overlap
+ * and kept only once.
+ */
+const joinWithOverlap = (previous: Word[], next: Word[]): Word[] => {
+  const tailStart = Math.max(previous.length - MAX_OVERLAP_WORDS, 0);
+  const headEnd = Math.min(next.length, MAX_OVERLAP_WORDS);
+  let best = { length: 0, previousEnd: previous.length, nextStart: 0 };
+
+  for (let i = tailStart; i < previous.length; i += 1) {
+    for (let j = 0; j < headEnd; j += 1) {
+      let length = 0;
+      while (
+        i + length < previous.length &&
+        j + length < next.length &&
+        normalizeWord(previous[i + length]) !== '' &&
+        normalizeWord(previous[i + length]) === normalizeWord(next[j + length])
+      ) {
+        length += 1;
+      }
+      if (length > best.length) {
+        best = { length, previousEnd: i + length, nextStart: j + length };
+      }
+    }
+  }
+
+  if (best.length < MIN_MATCH_WORDS) {
+    return appendWords(previous, next);
+  }
+  return appendWords(
+    previous.slice(0, best.previousEnd),
+    next.slice(best.nextStart),
+  );
+};
+
+export const stitchTranscripts = (texts: string[]): string =>
+  texts
+    .map(toWords)
+    .filter((words) => words.length > 0)
+    .reduce<Word[]>(
+      (joined, words) =>
+        joined.length === 0 ? words : joinWithOverlap(joined, words),
+      [],
+    )
+    .map((word, index) => (index === 0 ? word.text : word.space + word.text))
+    .join('');
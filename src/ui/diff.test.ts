@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { diffWords } from './diff';
+
+const sideText = (parts: ReturnType<typeof diffWords>, skip: string) =>
+  parts
+    .filter((part) => part.type !== skip)
+    .map((part) => part.text)
+    .join('');
+
+describe('diffWords', () => {
+  it('marks a replaced word as removed, then added', () => {
+    expect(diffWords('a b c', 'a x c')).toEqual([
+      { type: 'same', text: 'a ' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'same', text: ' c' },
+    ]);
+  });
+
+  it('gives back both texts unchanged, including whitespace', () => {
+    const before = 'Erster Satz.\n\nZweiter  Satz hier.';
+    const after = 'Erster Satz.\nZweiter Satz dort, und mehr.';
+    const parts = diffWords(before, after);
+    expect(sideText(parts, 'added')).toBe(before);
+    expect(sideText(parts, 'removed')).toBe(after);
+  });
+
+  it('reports identical texts as one unchanged part', () => {
+    expect(diffWords('gleich bleibt', 'gleich bleibt')).toEqual([
+      { type: 'same', text: 'gleich bleibt' },
+    ]);
+  });
+});
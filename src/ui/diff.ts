@@ -0,0 +1,67 @@
+export type DiffPart = {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+};
+
+// The comparison table grows with the product of both word counts; above this
+// the texts are shown as replaced as a whole instead.
+const MAX_DIFF_CELLS = 4_000_000;
+
+// Words and the whitespace between them, so joining the parts of one side
+// gives back its text unchanged.
+const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean);
+
+const pushPart = (parts: DiffPart[], type: DiffPart['type'], text: string) => {
+  const last = parts[parts.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+};
+
+/**
+ * Word-level difference between two texts, based on their longest common
+ * subsequence. Removed parts come before the added parts replacing them.
+ */
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const parts: DiffPart[] = [];
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    pushPart(parts, 'removed', before);
+    pushPart(parts, 'added', after);
+    return parts.filter((part) => part.text);
+  }
+
+  // lengths[i * width + j]: common tokens of a[i..] and b[j..].
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, 'same', a[i]);
+      i += 1;
+      j += 1;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      pushPart(parts, 'removed', a[i]);
+      i += 1;
+    } else {
+      pushPart(parts, 'added', b[j]);
+      j += 1;
+    }
+  }
+  a.slice(i).forEach((token) => pushPart(parts, 'removed', token));
+  b.slice(j).forEach((token) => pushPart(parts, 'added', token));
+  return parts;
+};
@@ -0,0 +1,54 @@
+export type LevelSample = {
+  // 0..1, scaled from LEVEL_FLOOR_DB..0 dBFS for display.
+  level: number;
+  db: number;
+};
+
+export type LevelMonitor = {
+  stop: () => void;
+};
+
+// Input below this is treated as silence (room noise of a typical headset).
+export const SILENCE_THRESHOLD_DB = -50;
+const LEVEL_FLOOR_DB = -60;
+
+/**
+ * Samples the input level of a stream with an AnalyserNode. Uses an interval
+ * instead of requestAnimationFrame so it keeps running while the window is
+ * hidden (e.g. during hotkey recordings).
+ */
+export const createLevelMonitor = (
+  stream: MediaStream,
+  onSample: (sample: LevelSample) => void,
+  intervalMs = 100,
+): LevelMonitor => {
+  const context = new AudioContext();
+  const source = context.createMediaStreamSource(stream);
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 2048;
+  source.connect(analyser);
+
+  const data = new Float32Array(analyser.fftSize);
+  const timer = window.setInterval(() => {
+    analyser.getFloatTimeDomainData(data);
+    let sum = 0;
+    for (let i = 0; i < data.length; i += 1) {
+      sum += data[i] * data[i];
+    }
+    const rms = Math.sqrt(sum / data.length);
+    const db = rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+    const level = Math.min(
+      1,
+      Math.max(0, (db - LEVEL_FLOOR_DB) / -LEVEL_FLOOR_DB),
+    );
+    onSample({ level, db });
+  }, intervalMs);
+
+  return {
+    stop: () => {
+      window.clearInterval(timer);
+      source.disconnect();
+      void context.close();
+    },
+  };
+};
@@ -0,0 +1,163 @@
+import type { Transcript } from '../shared/transcript';
+import { SEGMENT_OVERLAP_SECONDS, stitchTranscripts } from './chunking';
+import { TRANSCRIPTION_SAMPLE_RATE, decodeToMono, encodeWav } from './wav';
+
+// The main recorder hands out a slice this often while recording live; every
+// slice tells the transcriber that this much more audio was recorded.
+export const LIVE_TIMESLICE_MS = 1000;
+
+// A window is sent once this much has been recorded since the last one.
+const LIVE_WINDOW_SECONDS = 8;
+
+// A rest shorter than this at the end of the recording is not worth a request.
+const MIN_TAIL_SECONDS = 0.5;
+
+const OVERLAP_SAMPLES = SEGMENT_OVERLAP_SECONDS * TRANSCRIPTION_SAMPLE_RATE;
+
+export type LiveTranscriber = {
+  // Called for every slice of the main recorder.
+  update: () => void;
+  // Follow the main recorder, so paused audio stays out of the windows.
+  pause: () => void;
+  resume: () => void;
+  /**
+   * Transcribes what is left and returns the windows in order. Returns null
+   * when a window failed or nothing was transcribed; the caller then sends
+   * the whole recording the usual way.
+   */
+  finish: () => Promise<Transcript[] | null>;
+  // Drops the session, e.g. when the recording is discarded.
+  cancel: () => void;
+};
+
+type WindowRecorder = {
+  recorder: MediaRecorder;
+  // The window's audio as a file of its own, once the recorder stopped.
+  audio: Promise<Blob>;
+};
+
+/**
+ * Rolling short-window transcription for providers without a streaming API.
+ * A second recorder on the same stream is restarted for every window, so
+ * each window is a small file holding only the new audio and nothing is
+ * decoded twice. Only one window is in flight at a time; audio recorded
+ * meanwhile goes into the next window.
+ */
+export const createLiveTranscriber = (options: {
+  stream: MediaStream;
+  mimeType: string | undefined;
+  transcribe: (audio: ArrayBuffer) => Promise<Transcript>;
+  onPartial: (text: string) => void;
+}): LiveTranscriber => {
+  const results: Transcript[] = [];
+  // End of the previous window, put in front of the next one so a word cut
+  // at the boundary appears whole once; stitching removes the duplicate.
+  let overlap = new Float32Array(0);
+  let slicesSinceWindow = 0;
+  let pending: Promise<void> | null = null;
+  let failed = false;
+  let cancelled = false;
+
+  const startWindowRecorder = (): WindowRecorder => {
+    const recorder = new MediaRecorder(
+      options.stream,
+      options.mimeType ? { mimeType: options.mimeType } : undefined,
+    );
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data);
+      }
+    };
+    const audio = new Promise<Blob>((resolve) => {
+      recorder.onstop = () =>
+        resolve(new Blob(chunks, { type: recorder.mimeType }));
+    });
+    recorder.start();
+    return { recorder, audio };
+  };
+
+  // The recorder also stops by itself when the stream's tracks end.
+  const stopWindowRecorder = ({ recorder, audio }: WindowRecorder) => {
+    if (recorder.state !== 'inactive') {
+      recorder.stop();
+    }
+    return audio;
+  };
+
+  let current = startWindowRecorder();
+
+  const transcribeWindow = async (audio: Blob, minSeconds: number) => {
+    if (cancelled || audio.size === 0) {
+      return;
+    }
+    const samples = await decodeToMono(audio);
+    if (cancelled || samples.length < minSeconds * TRANSCRIPTION_SAMPLE_RATE) {
+      return;
+    }
+    const window = new Float32Array(overlap.length + samples.length);
+    window.set(overlap);
+    window.set(samples, overlap.length);
+    const result = await options.transcribe(encodeWav(window));
+    if (cancelled) {
+      return;
+    }
+    results.push(result);
+    overlap = window.slice(Math.max(window.length - OVERLAP_SAMPLES, 0));
+    options.onPartial(stitchTranscripts(results.map((entry) => entry.text)));
+  };
+
+  const runWindow = (audio: Promise<Blob>, minSeconds: number) => {
+    pending = audio
+      .then((blob) => transcribeWindow(blob, minSeconds))
+      .catch((error) => {
+        console.error('Live transcription window failed:', error);
+        failed = true;
+      })
+      .finally(() => {
+        pending = null;
+      });
+    return pending;
+  };
+
+  return {
+    update: () => {
+      slicesSinceWindow += 1;
+      if (
+        pending ||
+        failed ||
+        cancelled ||
+        slicesSinceWindow * LIVE_TIMESLICE_MS < LIVE_WINDOW_SECONDS * 1000
+      ) {
+        return;
+      }
+      slicesSinceWindow = 0;
+      // The next window starts before this one ends, so no audio is lost.
+      const finished = current;
+      current = startWindowRecorder();
+      void runWindow(stopWindowRecorder(finished), 0);
+    },
+    pause: () => {
+      if (current.recorder.state === 'recording') {
+        current.recorder.pause();
+      }
+    },
+    resume: () => {
+      if (current.recorder.state === 'paused') {
+        current.recorder.resume();
+      }
+    },
+    finish: async () => {
+      await pending;
+      const rest = stopWindowRecorder(current);
+      if (!failed && !cancelled) {
+        await runWindow(rest, MIN_TAIL_SECONDS);
+      }
+      return failed || cancelled || results.length === 0 ? null : results;
+    },
+    cancel: () => {
+      cancelled = true;
+      void stopWindowRecorder(current);
+    },
+  };
+};
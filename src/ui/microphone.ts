@@ -0,0 +1,102 @@
+import { LevelSample, createLevelMonitor } from './level-meter';
+import type { Settings } from '../shared/settings';
+
+type MicSettings = Pick<
+  Settings,
+  | 'micEchoCancellation'
+  | 'micNoiseSuppression'
+  | 'micAutoGainControl'
+  | 'micChannelCount'
+  | 'micSampleRate'
+>;
+
+/**
+ * Audio constraints for getUserMedia. Channel count and sample rate are only
+ * ideal values, so a device that cannot deliver them still records.
+ */
+export const getAudioConstraints = (
+  deviceId: string,
+  settings: MicSettings,
+): MediaTrackConstraints => ({
+  ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+  echoCancellation: settings.micEchoCancellation,
+  noiseSuppression: settings.micNoiseSuppression,
+  autoGainControl: settings.micAutoGainControl,
+  ...(settings.micChannelCount
+    ? { channelCount: { ideal: settings.micChannelCount } }
+    : {}),
+  ...(settings.micSampleRate
+    ? { sampleRate: { ideal: settings.micSampleRate } }
+    : {}),
+});
+
+export type MicTestResult = {
+  blob: Blob;
+  // Loudest sample of the test, -Infinity if nothing came through.
+  peakDb: number;
+  // What the device actually delivers after applying the constraints.
+  trackSettings: MediaTrackSettings;
+};
+
+/**
+ * Records a short sample of the stream for the microphone test and reports
+ * the level meanwhile. The stream is stopped afterwards.
+ */
+export const recordMicTest = (
+  stream: MediaStream,
+  options: {
+    durationMs: number;
+    mimeType?: string;
+    // Message of the NotReadableError the promise rejects with, translated
+    // by the caller.
+    failedMessage: string;
+    onSample: (sample: LevelSample, elapsedMs: number) => void;
+  },
+): Promise<MicTestResult> =>
+  new Promise((resolve, reject) => {
+    const [track] = stream.getAudioTracks();
+    const trackSettings = track?.getSettings() ?? {};
+    const recorder = new MediaRecorder(
+      stream,
+      options.mimeType ? { mimeType: options.mimeType } : undefined,
+    );
+    const chunks: Blob[] = [];
+    const startedAt = Date.now();
+    let peakDb = -Infinity;
+
+    const monitor = createLevelMonitor(stream, (sample) => {
+      peakDb = Math.max(peakDb, sample.db);
+      options.onSample(sample, Date.now() - startedAt);
+    });
+
+    recorder.start();
+    const timer = window.setTimeout(() => {
+      if (recorder.state !== 'inactive') {
+        recorder.stop();
+      }
+    }, options.durationMs);
+
+    const release = () => {
+      window.clearTimeout(timer);
+      monitor.stop();
+      stream.getTracks().forEach((entry) => entry.stop());
+    };
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data);
+      }
+    };
+    recorder.onstop = () => {
+      release();
+      resolve({
+        blob: new Blob(chunks, { type: recorder.mimeType }),
+        peakDb,
+        trackSettings,
+      });
+    };
+    recorder.onerror = () => {
+      release();
+      reject(new DOMException(options.failedMessage, 'NotReadableError'));
+    };
+  });
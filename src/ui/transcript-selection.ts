@@ -0,0 +1,48 @@
+import type { TranscriptSegment } from '../shared/transcript';
+
+// Extra audio on both sides, so words at the edge of the passage are not cut.
+const RANGE_PADDING_SECONDS = 0.5;
+
+/**
+ * Time range in the recording behind a selection of the shown text. The text
+ * may have been edited, so the selection is mapped proportionally onto the
+ * original text, in which the segment texts are looked up in order.
+ */
+export const getSelectionTimeRange = (options: {
+  segments: TranscriptSegment[];
+  originalText: string;
+  text: string;
+  selectionStart: number;
+  selectionEnd: number;
+  durationSeconds: number | null;
+}): { start: number; end: number } | null => {
+  const { segments, originalText, text } = options;
+  if (segments.length === 0 || !text || !originalText) {
+    return null;
+  }
+  const scale = originalText.length / text.length;
+  const from = options.selectionStart * scale;
+  const to = options.selectionEnd * scale;
+
+  let cursor = 0;
+  const selected = segments.filter((segment) => {
+    const found = originalText.indexOf(segment.text, cursor);
+    // Post-processing can change a segment's text so that it is not found;
+    // it is then assumed to follow the previous one.
+    const start = found === -1 ? cursor : found;
+    const end = start + segment.text.length;
+    cursor = end;
+    return start < to && end > from;
+  });
+  if (selected.length === 0) {
+    return null;
+  }
+  const end = selected[selected.length - 1].end + RANGE_PADDING_SECONDS;
+  return {
+    start: Math.max(selected[0].start - RANGE_PADDING_SECONDS, 0),
+    end:
+      options.durationSeconds === null
+        ? end
+        : Math.min(end, options.durationSeconds),
+  };
+};
@@ -0,0 +1,71 @@
+// Sample rate used for all audio MicScribe re-encodes itself. 16 kHz mono is
+// what speech models resample to anyway and keeps uploads small.
+export const TRANSCRIPTION_SAMPLE_RATE = 16000;
+
+/**
+ * Decodes a recorded or imported blob into mono PCM samples at the given
+ * sample rate. The AudioContext resamples while decoding.
+ */
+export const decodeToMono = async (
+  blob: Blob,
+  sampleRate = TRANSCRIPTION_SAMPLE_RATE,
+): Promise<Float32Array> => {
+  const context = new AudioContext({ sampleRate });
+  try {
+    const decoded = await context.decodeAudioData(await blob.arrayBuffer());
+    if (decoded.numberOfChannels === 1) {
+      return decoded.getChannelData(0);
+    }
+
+    const mono = new Float32Array(decoded.length);
+    for (let channel = 0; channel < decoded.numberOfChannels; channel += 1) {
+      const data = decoded.getChannelData(channel);
+      for (let i = 0; i < data.length; i += 1) {
+        mono[i] += data[i] / decoded.numberOfChannels;
+      }
+    }
+    return mono;
+  } finally {
+    void context.close();
+  }
+};
+
+// 16-bit PCM WAV (RIFF) encoding of mono samples.
+export const encodeWav = (
+  samples: Float32Array,
+  sampleRate = TRANSCRIPTION_SAMPLE_RATE,
+): ArrayBuffer => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i += 1) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i += 1) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(
+      44 + i * 2,
+      sample < 0 ? sample * 0x8000 : sample * 0x7fff,
+      true,
+    );
+  }
+
+  return buffer;
+};